@@ -6,44 +6,24 @@ import { componentLoaders, graph } from "./wizard-config";
 
 const PAGE_WIDTH = "40rem";
 
-// Stable adapters per route type – reuse so Flow's useUrlParams doesn't churn on popstate
-const pattern1Adapter = createPathParamsAdapter({
-	template: "/[id]/page/[page]",
-});
-const pattern2Adapter = createPathParamsAdapter({
-	template: "/[id]/[type]/[someOtherOptions]/[page]",
+// One stable adapter for both route patterns – reuse so Flow's useUrlParams doesn't re-subscribe
+const pathAdapter = createPathParamsAdapter({
+	template: ["/[id]/page/[page]", "/[id]/[type]/[someOtherOptions]/[page]"],
 });
 
-function getRouteConfig() {
+function isLandingPath() {
 	const pathname = window.location.pathname;
+	const search = window.location.search;
+	// Show landing only if path is "/" and no query params
+	return (pathname === "/" || pathname === "") && !search;
+}
 
-	// Pattern 1: /[id]/page/[page]
-	const pattern1Match = pathname.match(/^\/([^/]+)\/page\/([^/]+)$/);
-	if (pattern1Match) {
-		return {
-			type: "pattern1" as const,
-			adapter: pattern1Adapter,
-			pageParamName: "page",
-			uuidParamName: "id",
-		};
-	}
-
-	// Pattern 2: /[id]/[type]/[someOtherOptions]/[page]
-	const pattern2Match = pathname.match(
-		/^\/([^/]+)\/([^/]+)\/([^/]+)\/([^/]+)$/,
-	);
-	if (pattern2Match) {
-		return {
-			type: "pattern2" as const,
-			adapter: pattern2Adapter,
-			pageParamName: "page",
-			uuidParamName: "id",
-		};
-	}
-
+function getRouteConfig() {
+	// Path patterns: /[id]/page/[page] or /[id]/[type]/[someOtherOptions]/[page]
+	const template = pathAdapter.getMatchedTemplate();
 	return {
-		type: "query" as const,
-		adapter: undefined,
+		template,
+		adapter: template ? pathAdapter : undefined,
 		pageParamName: "page",
 		uuidParamName: "id",
 	};
@@ -51,12 +31,7 @@ function getRouteConfig() {
 
 export default function App() {
 	const [routeConfig, setRouteConfig] = useState(() => getRouteConfig());
-	const [showLanding, setShowLanding] = useState(() => {
-		const pathname = window.location.pathname;
-		const search = window.location.search;
-		// Show landing only if path is "/" and no query params
-		return (pathname === "/" || pathname === "") && !search;
-	});
+	const [showLanding, setShowLanding] = useState(() => isLandingPath());
 	const [flowPage, setFlowPage] = useState<string | null>(null);
 	const [flowPreviousPage, setFlowPreviousPage] = useState<string | null>(null);
 	const [flowState, setFlowState] = useState<FlowStateByPage>({});
@@ -74,29 +49,28 @@ export default function App() {
 		[],
 	);
 
-	// Listen for navigation changes
-	useEffect(() => {
-		const handlePopState = () => {
-			const pathname = window.location.pathname;
-			const search = window.location.search;
-			setShowLanding((pathname === "/" || pathname === "") && !search);
-			setRouteConfig(getRouteConfig());
-		};
+	const syncRoute = useCallback(() => {
+		setShowLanding(isLandingPath());
+		setRouteConfig(getRouteConfig());
+	}, []);
 
-		const handleRouteChange = () => {
-			const pathname = window.location.pathname;
-			const search = window.location.search;
-			setShowLanding((pathname === "/" || pathname === "") && !search);
-			setRouteConfig(getRouteConfig());
-		};
+	// Switches between the landing page and the route patterns.
+	// The Flow picks up its own URL changes through the adapter.
+	const navigate = useCallback(
+		(path: string) => {
+			window.history.pushState({}, "", path);
+			syncRoute();
+		},
+		[syncRoute],
+	);
 
-		window.addEventListener("popstate", handlePopState);
-		window.addEventListener("routechange", handleRouteChange);
+	// Browser back/forward between the landing page and the flow
+	useEffect(() => {
+		window.addEventListener("popstate", syncRoute);
 		return () => {
-			window.removeEventListener("popstate", handlePopState);
-			window.removeEventListener("routechange", handleRouteChange);
+			window.removeEventListener("popstate", syncRoute);
 		};
-	}, []);
+	}, [syncRoute]);
 
 	if (showLanding) {
 		return (
@@ -109,7 +83,7 @@ export default function App() {
 						marginRight: "auto",
 					}}
 				>
-					<Landing />
+					<Landing onNavigate={navigate} />
 				</div>
 			</div>
 		);
@@ -127,19 +101,11 @@ export default function App() {
 			>
 				<div className="mb-4 space-y-2">
 					<div className="p-2 bg-gray-100 rounded text-sm">
-						<strong>Route:</strong>{" "}
-						{routeConfig.type === "query" && "Query Params"}
-						{routeConfig.type === "pattern1" && "/[id]/page/[page]"}
-						{routeConfig.type === "pattern2" &&
-							"/[id]/[type]/[someOtherOptions]/[page]"}
+						<strong>Route:</strong> {routeConfig.template ?? "Query Params"}
 						{" | "}
 						<button
 							type="button"
-							onClick={() => {
-								window.history.pushState({}, "", "/");
-								window.dispatchEvent(new PopStateEvent("popstate"));
-								window.dispatchEvent(new CustomEvent("routechange"));
-							}}
+							onClick={() => navigate("/")}
 							className="text-blue-600 hover:underline"
 						>
 							← Back to Landing
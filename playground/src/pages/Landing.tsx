@@ -1,10 +1,12 @@
 import { Button } from "../components/Button";
 
-export default function Landing() {
+interface LandingProps {
+	onNavigate: (path: string) => void;
+}
+
+export default function Landing({ onNavigate }: LandingProps) {
 	const handleRoute = (path: string) => {
-		window.history.pushState({}, "", path);
-		window.dispatchEvent(new PopStateEvent("popstate"));
-		window.dispatchEvent(new CustomEvent("routechange"));
+		onNavigate(path);
 	};
 
 	return (
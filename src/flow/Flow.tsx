@@ -1,23 +1,70 @@
 import { FlowContext } from "@/flow/FlowContext";
 import { Presenter } from "@/flow/NodePresenter";
+import { type CrossTabSyncConfig, useCrossTabSync } from "@/flow/crossTabSync";
+import {
+	type FlowExpirationConfig,
+	getExpiredReason,
+	getExpiresAt,
+	isStaleFlow,
+} from "@/flow/flowExpiry";
+import {
+	EMPTY_FLOW_HISTORY,
+	type FlowHistory,
+	backVisit,
+	pushVisit,
+	replaceVisit,
+	restoreHistory,
+	syncVisit,
+} from "@/flow/flowHistory";
 import { defaultStateManager } from "@/flow/flowStateManagers";
 import {
-	getNextPage,
+	getGraphKey,
+	getNextNonSkippedPageAsync,
+	getNextPageAsync,
 	getNode,
-	getPreviousPage,
-	resolveNextPage,
-	shouldSkipStep,
+	getPreviousPageAsync,
+	resolveNextPageAsync,
+	shouldSkipStepAsync,
 } from "@/flow/graphHelpers";
+import { chain, isPromiseLike, withTimeout } from "@/flow/maybePromise";
+import {
+	type NavigationGuard,
+	defaultConfirmNavigation,
+	runNavigationGuards,
+} from "@/flow/navigationGuards";
+import {
+	type ResumeConfig,
+	decodeResumeToken,
+	encodeResumeToken,
+} from "@/flow/resumeTokens";
 import type {
 	ComponentLoader,
+	ExpiredReason,
 	FlowContextValue,
 	FlowGraph,
 	FlowState,
 	FlowStateByPage,
+	FlowStateStorage,
+	FlowValidationErrors,
+	MaybePromise,
+	NavigationDirection,
 	UrlParamsAdapter,
 } from "@/flow/types";
+import {
+	type UrlStateBinding,
+	getClearedUrlStateParams,
+	getUrlStateParams,
+	readUrlState,
+} from "@/flow/urlStateBindings";
 import { useUrlParams } from "@/flow/useURLParams";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+	type ReactNode,
+	useCallback,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
 
 /**
  * Configuration options for the Flow component
@@ -31,8 +78,9 @@ export type FlowConfig = {
 	 * - **Omit (default)**: Uses query params like `?page=pageA&id=xyz`
 	 * - **Path-based URLs**: Pass `createPathParamsAdapter({ template: "/[id]/page/[page]" })`
 	 *   to use path segments like `/test123/page/pageA`
-	 * - **Framework adapters**: Use `createPathParamsAdapterFromProps` for Next.js/Remix
-	 *   or create a custom adapter for other routing libraries
+	 * - **Framework adapters**: Use `useNextUrlParamsAdapter` for the Next.js App Router,
+	 *   `useReactRouterUrlParamsAdapter` for React Router, `createPathParamsAdapterFromProps`
+	 *   for Remix, or create a custom adapter for other routing libraries
 	 *
 	 * @example
 	 * ```ts
@@ -57,6 +105,42 @@ export type FlowConfig = {
 	 */
 	uuidParamName?: string;
 
+	/**
+	 * Optional page state keys mirrored into URL params. The URL is updated as
+	 * the state changes, and on load the params fill in keys without a stored
+	 * value, so a shared link reproduces the choices `nextPage` depends on.
+	 * Only the listed keys reach the URL.
+	 *
+	 * @example
+	 * ```ts
+	 * urlStateBindings: [
+	 *   { page: "plan", key: "plan" },
+	 *   { page: "plan", key: "seats", serialize: String, deserialize: Number },
+	 * ]
+	 * ```
+	 */
+	urlStateBindings?: UrlStateBinding[];
+
+	/**
+	 * Optional resume links. When the URL has a resume token (see
+	 * `createResumeToken` in useFlow), its state and page are imported before
+	 * the initial validation, so the flow continues in another tab or browser.
+	 * Pass `sign` to sign tokens and reject unsigned or tampered ones.
+	 *
+	 * @example
+	 * ```ts
+	 * resume: {
+	 *   paramName: "resume",
+	 *   // Signed on the server: the key must never ship to the client
+	 *   sign: (data) =>
+	 *     fetch("/api/resume-signature", { method: "POST", body: data }).then(
+	 *       (res) => res.text(),
+	 *     ),
+	 * }
+	 * ```
+	 */
+	resume?: ResumeConfig;
+
 	/**
 	 * Optional callback when page changes. Receives the new page, previous page
 	 * (null on initial load), and the accumulated state (merged from all pages).
@@ -75,6 +159,95 @@ export type FlowConfig = {
 	 */
 	enableState?: boolean;
 
+	/**
+	 * Optional storage backend for flow state (defaults to session storage).
+	 * Only used when `enableState` is true.
+	 *
+	 * - **Omit (default)**: `WizardStateManager` backed by `window.sessionStorage`
+	 * - **`new LocalStorageStateManager()`**: survives closing the tab
+	 * - **`new MemoryStateManager()`**: in memory only (tests, SSR, embeds)
+	 * - **Custom**: any object implementing `FlowStateStorage`
+	 *
+	 * Pass a stable instance (module-level or memoized); a new instance on every
+	 * render re-reads state on every render.
+	 *
+	 * @example
+	 * ```ts
+	 * const stateManager = new LocalStorageStateManager("drafts:");
+	 * <Flow graph={graph} config={{ stateManager }} />
+	 * ```
+	 */
+	stateManager?: FlowStateStorage;
+
+	/**
+	 * Optional cross-tab synchronization for tabs showing the same flow UUID.
+	 * Off by default. Pass `true` for the "follow" policy or an object to pick one:
+	 *
+	 * - **"follow"**: other tabs apply the state and navigate to the same page
+	 * - **"warn"**: other tabs apply the state; the page is exposed as `remotePage`
+	 * - **"lock"**: the first tab owns the flow; later tabs are read-only (`isReadOnly`)
+	 *
+	 * @example
+	 * ```ts
+	 * <Flow graph={graph} config={{ crossTabSync: { policy: "warn" } }} />
+	 * ```
+	 */
+	crossTabSync?: boolean | CrossTabSyncConfig;
+
+	/**
+	 * Optional expiration for persisted flows. Only used when `enableState` is true.
+	 *
+	 * - **maxAge**: absolute lifetime in ms from when the flow was started
+	 * - **idleTimeout**: ms without a state update or navigation
+	 *
+	 * - **retention**: ms completed and timed-out flows stay in storage (default 7 days)
+	 *
+	 * Expired flows render the `__expired__` page with `expiredReason: "timeout"`.
+	 * Use `useFlowExpiry()` to warn users before it happens.
+	 */
+	expiration?: FlowExpirationConfig;
+
+	/**
+	 * Optional flow definition version. Persisted flows started with a different
+	 * version render the `__expired__` page with `expiredReason: "version-mismatch"`.
+	 * Bump it when a graph change makes old state incompatible.
+	 */
+	version?: string;
+
+	/**
+	 * Max time in ms to wait for async `nextPage` resolvers and `shouldSkip`
+	 * predicates (defaults to 10000). On timeout navigation stops and
+	 * `navigationError` is set. Pass `Infinity` to wait indefinitely.
+	 */
+	resolverTimeout?: number;
+
+	/**
+	 * Optional guard run for every navigation, after the current page's
+	 * `canLeave` and before the target page's `canEnter`. Like them it may
+	 * allow, cancel, redirect (`{ redirect: page }`) or ask for confirmation
+	 * (`{ confirm: message }`). Cancelled browser back/forward restores the URL.
+	 *
+	 * @example
+	 * ```ts
+	 * navigationGuard: ({ to, state }) =>
+	 *   to === "payment" && !state.account?.verified ? { redirect: "verify" } : true
+	 * ```
+	 */
+	navigationGuard?: NavigationGuard;
+
+	/**
+	 * Asks the user to confirm a navigation when a guard returns `{ confirm }`
+	 * (defaults to `window.confirm`). Resolving to false cancels it.
+	 * Counts toward `resolverTimeout`, so raise it for custom dialogs.
+	 */
+	confirmNavigation?: (message: string) => MaybePromise<boolean>;
+
+	/**
+	 * Rendered instead of the page while an async `shouldSkip` decides whether
+	 * the page is shown (defaults to nothing)
+	 */
+	pendingFallback?: ReactNode;
+
 	/**
 	 * Map of page identifiers to component loaders
 	 * Each loader should return a promise that resolves to a component with a default export
@@ -110,19 +283,112 @@ function generateShortUuid(): string {
 	return uuid.slice(-5);
 }
 
+type PageStateEntry = { page: string; state: FlowState };
+
+/**
+ * Minimum time between activity timestamp writes (keeps keystrokes cheap)
+ */
+const ACTIVITY_THROTTLE_MS = 1000;
+
+/**
+ * Largest delay setTimeout supports (about 24.8 days)
+ */
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Default max wait for async resolvers and skip predicates
+ */
+const DEFAULT_RESOLVER_TIMEOUT_MS = 10_000;
+
+/**
+ * Errors of a page that hasn't been validated yet (stable reference)
+ */
+const NO_ERRORS: FlowValidationErrors = {};
+
+/**
+ * Runs a page's validate function against the given state
+ */
+function getPageErrors(
+	graph: FlowGraph,
+	page: string,
+	state: FlowStateByPage,
+): FlowValidationErrors {
+	const node = getNode(graph, page);
+	return node?.validate?.(state[page] ?? {}, state) ?? NO_ERRORS;
+}
+
+/**
+ * Whether validation errors contain no error message
+ */
+function isPageValid(errors: FlowValidationErrors): boolean {
+	return Object.values(errors).every((error) => error === undefined);
+}
+
+/**
+ * Gets the initial page when it can be decided without stored state: the entry
+ * point (no page or the entry page in the URL) or "__notfound__". Returns
+ * undefined when the stored state for the UUID has to be checked first.
+ * Async storage and resume tokens defer even the entry point: its state may
+ * still be loading, or the token may resume on another page.
+ */
+function getSyncInitialPage(
+	graph: FlowGraph,
+	urlPage: string | null,
+	isDeferred: boolean,
+): string | null | undefined {
+	if (isDeferred) {
+		return undefined;
+	}
+	const entryPoint = graph.entryPoint || null;
+	if (!urlPage || urlPage === entryPoint) {
+		return urlPage || entryPoint;
+	}
+	if (!graph.nodes.has(urlPage)) {
+		return "__notfound__";
+	}
+	return undefined;
+}
+
+/**
+ * Merges updates into a page's in-memory entry (used when enableState is false)
+ */
+function mergeMemoryEntry(
+	entries: PageStateEntry[],
+	page: string,
+	updates: Record<string, unknown>,
+): PageStateEntry[] {
+	const next = [...entries];
+	const i = next.findIndex((e) => e.page === page);
+	const entry = i >= 0 ? { ...next[i] } : { page, state: {} };
+	entry.state = { ...entry.state, ...updates };
+	if (i >= 0) next[i] = entry;
+	else next.push(entry);
+	return next;
+}
+
 export function Flow({ graph, config = {} }: FlowProps) {
 	const {
 		urlParamsAdapter,
 		pageParamName = "page",
 		uuidParamName = "id",
+		urlStateBindings,
+		resume,
 		onPageChange,
 		enableState = true,
+		stateManager: customStateManager,
+		crossTabSync,
+		expiration,
+		version,
+		resolverTimeout = DEFAULT_RESOLVER_TIMEOUT_MS,
+		pendingFallback = null,
+		navigationGuard,
+		confirmNavigation = defaultConfirmNavigation,
 		componentLoaders,
 	} = config;
 
-	const stateManager = defaultStateManager;
+	const stateManager: FlowStateStorage =
+		customStateManager ?? defaultStateManager;
 
-	type PageStateEntry = { page: string; state: FlowState };
 	const [memoryEntries, setMemoryEntries] = useState<PageStateEntry[]>([]);
 
 	const mergeEntries = useCallback(
@@ -147,19 +413,55 @@ export function Flow({ graph, config = {} }: FlowProps) {
 
 	const urlParams = useUrlParams(urlParamsAdapter);
 
-	// Get or generate UUID (last 5 digits)
-	const [flowUuid, setFlowUuid] = useState<string>(() => {
-		const existingUuid = urlParams.getParam(uuidParamName);
-		if (existingUuid) {
-			return existingUuid;
-		}
-		const newUuid = generateShortUuid();
-		// Set it in URL if it doesn't exist
-		if (typeof window !== "undefined") {
-			urlParams.setParam(uuidParamName, newUuid);
+	// Pages of the URL entries up to the current one, as far as this Flow knows
+	// (written here or reached with back/forward). Lets going back pop the
+	// browser history when the entry below is the page it goes back to.
+	const pageEntriesRef = useRef<string[]>([]);
+	// In-app Back waiting for the URL to pop to its page before showing it
+	const pendingPopRef = useRef<{ page: string; apply: () => void } | null>(
+		null,
+	);
+
+	// Push a URL entry for the page
+	const pushPageParam = useCallback(
+		(page: string) => {
+			pendingPopRef.current = null;
+			pageEntriesRef.current = [...pageEntriesRef.current, page];
+			urlParams.setParam(pageParamName, page);
+		},
+		[urlParams, pageParamName],
+	);
+
+	// Put the page in the current URL entry
+	const replacePageParam = useCallback(
+		(page: string) => {
+			pendingPopRef.current = null;
+			pageEntriesRef.current = [...pageEntriesRef.current.slice(0, -1), page];
+			urlParams.replaceParam(pageParamName, page);
+		},
+		[urlParams, pageParamName],
+	);
+
+	// Follow URL changes made outside the Flow (back/forward, links): one entry
+	// down on a back to the entry below, otherwise start over from this entry
+	useEffect(() => {
+		const urlPage = urlParams.params[pageParamName];
+		const entries = pageEntriesRef.current;
+		if (!urlPage || entries[entries.length - 1] === urlPage) {
+			return;
 		}
-		return newUuid;
-	});
+		pageEntriesRef.current =
+			entries[entries.length - 2] === urlPage
+				? entries.slice(0, -1)
+				: [urlPage];
+	}, [urlParams.params, pageParamName]);
+
+	// Get or generate UUID (last 5 digits)
+	// A new UUID is written to the URL by the effect below: routers can't
+	// navigate while rendering
+	const [flowUuid, setFlowUuid] = useState<string>(
+		() => urlParams.getParam(uuidParamName) ?? generateShortUuid(),
+	);
 
 	// Sync UUID with URL param
 	useEffect(() => {
@@ -171,23 +473,162 @@ export function Flow({ graph, config = {} }: FlowProps) {
 		}
 	}, [flowUuid, uuidParamName, urlParams]);
 
-	// Determine initial page - start with null to ensure validation completes before rendering
-	// We'll validate in useEffect to ensure session storage is accessible
-	const [currentPage, setCurrentPage] = useState<string | null>(null);
+	// Resume token from the URL, imported before the initial validation
+	const resumeParamName = resume?.paramName ?? "resume";
+	const [resumeToken, setResumeToken] = useState(() =>
+		resume ? urlParams.getParam(resumeParamName) : null,
+	);
+	// Latest sign function (often an inline function in the config)
+	const resumeSignRef = useRef(resume?.sign);
+	resumeSignRef.current = resume?.sign;
+
+	// Determine initial page while rendering when it doesn't depend on stored state,
+	// so the first paint (also on the server) shows it. Otherwise start with null
+	// and validate in useEffect, where session storage is accessible.
+	const [syncInitialPage] = useState(() =>
+		getSyncInitialPage(
+			graph,
+			urlParams.getParam(pageParamName),
+			(enableState && !!stateManager.hydrate) || resumeToken !== null,
+		),
+	);
+	const [currentPage, setCurrentPage] = useState<string | null>(
+		syncInitialPage ?? null,
+	);
 
 	// Track if we're currently validating initial state (entry point + session storage check)
 	// This prevents rendering until we've confirmed we're either on entry point or state exists
 	// Always start with true - we'll validate in the effect
 	const [isValidating, setIsValidating] = useState(true);
 
+	// Pending async navigation: bumping the id drops results of superseded resolvers
+	const [isNavigating, setIsNavigating] = useState(false);
+	const [navigationError, setNavigationError] = useState<Error | null>(null);
+	const navigationIdRef = useRef(0);
+
+	// Visited pages (persisted in the flow metadata) for back navigation
+	const [history, setHistory] = useState<FlowHistory>(EMPTY_FLOW_HISTORY);
+	const { visitedPages, navigationDirection } = history;
+
 	// Track if we're currently checking if a page should be skipped
-	const [isCheckingSkip, setIsCheckingSkip] = useState(false);
+	const [skipCheckPage, setSkipCheckPage] = useState<string | null>(null);
+	const isCheckingSkip = isNavigating && skipCheckPage === currentPage;
 	const skipCheckRef = useRef(false);
+	// Async skip predicates run once per page visit, not on every state change
+	const skipCheckedRef = useRef<{ page: string | null; async: boolean }>({
+		page: null,
+		async: false,
+	});
+	// URL page whose async skip check or guards (back/forward) are in flight
+	const pendingUrlPageRef = useRef<string | null>(null);
 	const hasInitializedRef = useRef(false);
 
+	// Applies the result of a navigation decision. Sync results apply immediately;
+	// async ones set isNavigating, time out after resolverTimeout and are dropped
+	// if another navigation starts first. onSettled runs once the promise settles.
+	const runNavigation = useCallback(
+		<T,>(
+			value: MaybePromise<T>,
+			apply: (result: T) => void,
+			label: string,
+			onSettled?: () => void,
+		) => {
+			const navigationId = ++navigationIdRef.current;
+			setNavigationError(null);
+
+			if (!isPromiseLike(value)) {
+				setIsNavigating(false);
+				apply(value);
+				return;
+			}
+
+			setIsNavigating(true);
+			withTimeout(
+				value,
+				resolverTimeout,
+				`${label} timed out after ${resolverTimeout}ms`,
+			)
+				.then(
+					(result) => {
+						if (navigationId !== navigationIdRef.current) return;
+						setIsNavigating(false);
+						apply(result);
+					},
+					(error: unknown) => {
+						if (navigationId !== navigationIdRef.current) return;
+						setIsNavigating(false);
+						setNavigationError(
+							error instanceof Error ? error : new Error(String(error)),
+						);
+					},
+				)
+				.finally(() => {
+					onSettled?.();
+				});
+		},
+		[resolverTimeout],
+	);
+
 	// State version counter to trigger re-computation of allState
 	const [stateVersion, setStateVersion] = useState(0);
 
+	// Why the flow is shown as expired, and the URL page it expired on
+	const [expiredReason, setExpiredReason] = useState<ExpiredReason | null>(
+		null,
+	);
+	const expiredUrlPageRef = useRef<string | null>(null);
+
+	const maxAge = expiration?.maxAge;
+	const idleTimeout = expiration?.idleTimeout;
+	const retention = expiration?.retention;
+	// Recorded in the metadata of flows started here, to scope the sweep
+	const graphKey = useMemo(() => getGraphKey(graph), [graph]);
+
+	// Checks stored state for the UUID: null when valid, otherwise why it expired
+	const checkExpired = useCallback((): ExpiredReason | null => {
+		if (!enableState) {
+			return null;
+		}
+		if (!stateManager.hasState(flowUuid)) {
+			return "missing";
+		}
+		return getExpiredReason(stateManager.getMetadata(flowUuid), {
+			expiration: { maxAge, idleTimeout },
+			version,
+		});
+	}, [enableState, stateManager, flowUuid, maxAge, idleTimeout, version]);
+
+	// Drops flows of this graph that were completed or timed out longer than the
+	// retention ago. Flows of other graphs are judged by their own Flow's expiry.
+	useEffect(() => {
+		if (!enableState || !stateManager.sweep) {
+			return;
+		}
+		stateManager.sweep(
+			(uuid, metadata) =>
+				uuid !== flowUuid &&
+				metadata?.graphKey === graphKey &&
+				isStaleFlow(metadata, { maxAge, idleTimeout, retention }),
+		);
+	}, [
+		enableState,
+		stateManager,
+		flowUuid,
+		graphKey,
+		maxAge,
+		idleTimeout,
+		retention,
+	]);
+
+	// Visited pages persisted for the UUID (none when state is disabled)
+	const getStoredVisitedPages = useCallback(
+		() =>
+			enableState
+				? stateManager.getMetadata(flowUuid)?.visitedPages
+				: undefined,
+		[enableState, stateManager, flowUuid],
+	);
+
 	// Get accumulated state from all pages
 	const allState = useMemo(() => {
 		if (enableState) {
@@ -205,11 +646,274 @@ export function Flow({ graph, config = {} }: FlowProps) {
 		memoryEntries,
 	]);
 
+	// Cross-tab sync: apply edits from other tabs showing the same UUID
+	const crossTab = useCrossTabSync({
+		config: crossTabSync,
+		uuid: flowUuid,
+		onRemoteState: (page, updates) => {
+			if (enableState) {
+				stateManager.setStateBatch(flowUuid, page, updates);
+				setStateVersion((prev) => prev + 1);
+			} else {
+				setMemoryEntries((prev) => mergeMemoryEntry(prev, page, updates));
+			}
+		},
+		onRemoteClear: () => {
+			if (enableState) {
+				markCompleted();
+				setStateVersion((prev) => prev + 1);
+			} else {
+				setMemoryEntries([]);
+			}
+		},
+		onRemotePage: (page) => {
+			// URL drives the page; the URL sync effect handles skip checks
+			if (page !== currentPage && graph.nodes.has(page)) {
+				replacePageParam(page);
+			}
+		},
+	});
+	const { isReadOnly, broadcastState, broadcastPage, broadcastClear } =
+		crossTab;
+	const remotePage =
+		crossTab.remotePage !== currentPage ? crossTab.remotePage : null;
+
+	// A read-only tab mirrors the owner tab: it can't change state or move on its own
+	const warnReadOnly = useCallback(() => {
+		console.warn(
+			`Flow "${flowUuid}" is open in another tab; it is read-only here`,
+		);
+	}, [flowUuid]);
+
+	// Runs canLeave, the flow-level guard and canEnter for a navigation from the
+	// current page. Resolves to the page to show, or null when cancelled.
+	const guardNavigation = useCallback(
+		(
+			to: string,
+			direction: NavigationDirection,
+			state: FlowStateByPage = allState,
+		) =>
+			runNavigationGuards(
+				graph,
+				{ from: currentPage, to, direction, state },
+				{ guard: navigationGuard, confirm: confirmNavigation },
+			),
+		[graph, currentPage, allState, navigationGuard, confirmNavigation],
+	);
+
+	// Validation errors of the current page, recomputed as its state changes
+	const currentErrors = useMemo(
+		() =>
+			currentPage ? getPageErrors(graph, currentPage, allState) : NO_ERRORS,
+		[graph, currentPage, allState],
+	);
+	const isValid = isPageValid(currentErrors);
+
+	// Errors are shown once the page was validated; navigating away hides them
+	const [validatedPage, setValidatedPage] = useState<string | null>(null);
+	const errors = validatedPage === currentPage ? currentErrors : NO_ERRORS;
+
+	const validateCurrentPage = useCallback(() => {
+		setValidatedPage(currentPage);
+		return isValid;
+	}, [currentPage, isValid]);
+
+	// Async storage backends load state for the UUID before it can be checked
+	// Track which UUID has been hydrated so a UUID change re-hydrates
+	const needsHydration = enableState && !!stateManager.hydrate;
+	const [hydratedUuid, setHydratedUuid] = useState<string | null>(null);
+	const isHydrating = needsHydration && hydratedUuid !== flowUuid;
+
+	useEffect(() => {
+		if (!needsHydration || !stateManager.hydrate) {
+			return;
+		}
+
+		let cancelled = false;
+		stateManager
+			.hydrate(flowUuid)
+			.catch((error: unknown) => {
+				console.error(`Failed to hydrate state for UUID "${flowUuid}":`, error);
+			})
+			.then(() => {
+				if (cancelled) return;
+				setHydratedUuid(flowUuid);
+				setStateVersion((prev) => prev + 1);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [needsHydration, stateManager, flowUuid]);
+
+	// Re-read state the storage changed on its own (e.g. a conflict merge)
+	useEffect(() => {
+		if (!enableState || !stateManager.subscribe) {
+			return;
+		}
+		return stateManager.subscribe((uuid) => {
+			if (uuid === flowUuid) {
+				setStateVersion((prev) => prev + 1);
+			}
+		});
+	}, [enableState, stateManager, flowUuid]);
+
+	// Bound state keys from the URL that have no value yet (stored values win)
+	const readUrlStateValues = useCallback((): FlowStateByPage => {
+		if (!urlStateBindings) {
+			return {};
+		}
+		return readUrlState(
+			urlStateBindings,
+			urlParams.getAllParams(),
+			enableState ? stateManager.getAllState(graph, flowUuid) : allState,
+		);
+	}, [
+		urlStateBindings,
+		urlParams,
+		enableState,
+		stateManager,
+		graph,
+		flowUuid,
+		allState,
+	]);
+
+	// Fills in bound state keys from the URL on load. Without stored state this
+	// starts the flow.
+	const hydrateUrlState = useCallback(
+		(values: FlowStateByPage = readUrlStateValues()) => {
+			const pages = Object.keys(values);
+			if (pages.length === 0) {
+				return;
+			}
+			if (!enableState) {
+				setMemoryEntries((prev) =>
+					pages.reduce(
+						(entries, page) => mergeMemoryEntry(entries, page, values[page]),
+						prev,
+					),
+				);
+				return;
+			}
+			if (!stateManager.hasState(flowUuid)) {
+				stateManager.preRegisterState(graph, flowUuid);
+				const now = Date.now();
+				stateManager.setMetadata(flowUuid, {
+					createdAt: now,
+					updatedAt: now,
+					version,
+					graphKey,
+				});
+			}
+			for (const page of pages) {
+				stateManager.setStateBatch(flowUuid, page, values[page]);
+			}
+			setStateVersion((prev) => prev + 1);
+		},
+		[
+			readUrlStateValues,
+			enableState,
+			stateManager,
+			graph,
+			flowUuid,
+			version,
+			graphKey,
+		],
+	);
+
+	// URL page of a shared link whose guards are running before it opens
+	const pendingLinkPageRef = useRef<string | null>(null);
+
+	// Imports a resume token from the URL: its state replaces the UUID's state
+	// and its page goes in the URL. Invalid tokens are dropped with a warning.
+	// The initial validation then runs as usual.
+	useEffect(() => {
+		if (!resumeToken || isHydrating) {
+			return;
+		}
+
+		let cancelled = false;
+		decodeResumeToken(resumeToken, { sign: resumeSignRef.current })
+			.catch(() => null)
+			.then((payload) => {
+				if (cancelled) return;
+				const params = urlParams.getAllParams();
+				delete params[resumeParamName];
+
+				const isValidPayload =
+					payload &&
+					graph.nodes.has(payload.page) &&
+					(version === undefined || payload.version === version);
+				if (!isValidPayload) {
+					console.warn(`Ignoring invalid resume token for flow "${flowUuid}"`);
+					urlParams.replaceParams(params);
+					setResumeToken(null);
+					return;
+				}
+
+				// Pages the graph doesn't have are dropped
+				const pageStates = Object.entries(payload.state).filter(([page]) =>
+					graph.nodes.has(page),
+				);
+				const visitedPages = payload.visitedPages?.filter((page) =>
+					graph.nodes.has(page),
+				);
+
+				if (enableState) {
+					stateManager.clearState(flowUuid);
+					stateManager.preRegisterState(graph, flowUuid);
+					for (const [page, pageState] of pageStates) {
+						stateManager.setStateBatch(flowUuid, page, pageState);
+					}
+					const now = Date.now();
+					stateManager.setMetadata(flowUuid, {
+						createdAt: now,
+						updatedAt: now,
+						version,
+						graphKey,
+						visitedPages,
+					});
+					setStateVersion((prev) => prev + 1);
+				} else {
+					setMemoryEntries(
+						pageStates.map(([page, pageState]) => ({
+							page,
+							state: { ...pageState },
+						})),
+					);
+				}
+				urlParams.replaceParams({
+					...params,
+					[uuidParamName]: flowUuid,
+					[pageParamName]: payload.page,
+				});
+				setResumeToken(null);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [
+		resumeToken,
+		isHydrating,
+		urlParams.getAllParams,
+		urlParams.replaceParams,
+		resumeParamName,
+		graph,
+		version,
+		flowUuid,
+		enableState,
+		stateManager,
+		uuidParamName,
+		pageParamName,
+		graphKey,
+	]);
+
 	// Early validation check: Ensure we're either on entry point or state exists
 	// This runs first to prevent any rendering until validation is complete
 	useEffect(() => {
-		if (!isValidating) {
-			return; // Validation already complete
+		if (!isValidating || isHydrating || resumeToken) {
+			return; // Validation already complete, or waiting for async storage or a resume token
 		}
 
 		const urlPage = urlParams.getParam(pageParamName);
@@ -218,7 +922,16 @@ export function Flow({ graph, config = {} }: FlowProps) {
 
 		// If we're on entry point or no page param, no validation needed (will go to entry point)
 		if (isEntryPoint || !urlPage) {
+			// Starting over on an expired or completed UUID discards the old state
+			const reason = checkExpired();
+			if (reason && reason !== "missing") {
+				stateManager.clearState(flowUuid);
+			}
+			hydrateUrlState();
 			const initialPage = urlPage || entryPoint;
+			if (initialPage) {
+				setHistory(restoreHistory(getStoredVisitedPages(), initialPage));
+			}
 			setCurrentPage(initialPage);
 			setIsValidating(false);
 			onPageChange?.(initialPage, null, allState);
@@ -233,47 +946,146 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			return;
 		}
 
-		// When state enabled: check if UUID has state in session storage
-		if (enableState) {
-			const uuidExists = stateManager.hasState(flowUuid);
-			if (!uuidExists) {
-				setCurrentPage("__expired__");
-				setIsValidating(false);
-				onPageChange?.("__expired__", null, allState);
+		// When state enabled: check the UUID has state that hasn't expired.
+		// Stored state gets the missing bound values from the URL.
+		const reason = checkExpired();
+		if (!reason) {
+			hydrateUrlState();
+		}
+
+		// A shared link without stored state opens with its bound values where the
+		// guards allow it, and at the entry point otherwise
+		const linkValues = reason === "missing" ? readUrlStateValues() : {};
+		if (Object.keys(linkValues).length > 0) {
+			if (pendingLinkPageRef.current === urlPage) {
 				return;
 			}
+			pendingLinkPageRef.current = urlPage;
+
+			let opened = false;
+			const open = (allowed: string | null) => {
+				opened = true;
+				pendingLinkPageRef.current = null;
+				const page = allowed ?? entryPoint;
+				if (!page) {
+					setExpiredReason("missing");
+					expiredUrlPageRef.current = urlPage;
+					setCurrentPage("__expired__");
+					setIsValidating(false);
+					onPageChange?.("__expired__", null, allState);
+					return;
+				}
+				hydrateUrlState(linkValues);
+				if (page !== urlPage) {
+					replacePageParam(page);
+				}
+				setHistory(restoreHistory([], page));
+				setCurrentPage(page);
+				setIsValidating(false);
+				onPageChange?.(page, null, allState);
+			};
+			runNavigation(
+				guardNavigation(urlPage, "jump", linkValues),
+				open,
+				`Opening "${urlPage}"`,
+				() => {
+					// Guards that failed or timed out don't let the link through
+					if (!opened) {
+						open(null);
+					}
+				},
+			);
+			return;
+		}
+
+		if (reason) {
+			setExpiredReason(reason);
+			expiredUrlPageRef.current = urlPage;
+			setCurrentPage("__expired__");
+			setIsValidating(false);
+			onPageChange?.("__expired__", null, allState);
+			return;
 		}
 
 		// Validation passes
+		setHistory(restoreHistory(getStoredVisitedPages(), urlPage));
 		setCurrentPage(urlPage);
 		setIsValidating(false);
 		onPageChange?.(urlPage, null, allState);
 	}, [
 		isValidating,
+		isHydrating,
 		urlParams,
 		pageParamName,
 		graph,
 		flowUuid,
 		stateManager,
-		enableState,
+		checkExpired,
+		hydrateUrlState,
+		readUrlStateValues,
+		getStoredVisitedPages,
 		onPageChange,
 		allState,
+		resumeToken,
+		runNavigation,
+		guardNavigation,
+		replacePageParam,
 	]);
 
+	// Mirror bound state keys into the URL as the state changes. Replacing
+	// keeps the history entries of page navigations.
+	useEffect(() => {
+		if (!urlStateBindings || isValidating || isHydrating) {
+			return;
+		}
+		const params = getUrlStateParams(urlStateBindings, allState);
+		for (const [param, value] of Object.entries(params)) {
+			if (urlParams.getParam(param) !== value) {
+				urlParams.replaceParam(param, value);
+			}
+		}
+
+		// Drop the params of keys that were cleared
+		const cleared = getClearedUrlStateParams(urlStateBindings, allState).filter(
+			(param) => urlParams.getParam(param) !== null,
+		);
+		if (cleared.length > 0) {
+			const remaining = urlParams.getAllParams();
+			for (const param of cleared) {
+				delete remaining[param];
+			}
+			urlParams.replaceParams(remaining);
+		}
+	}, [urlStateBindings, isValidating, isHydrating, allState, urlParams]);
+
 	// Sync current page with URL param changes (browser back/forward)
 	// URL is the source of truth - when URL changes, it drives what page is shown
 	// Also validates UUID existence and page validity BEFORE pre-registering state
 	// Run validation immediately on mount to ensure correct initial state
 	useEffect(() => {
-		// Don't proceed if still validating - wait for validation to complete
-		if (isValidating) {
+		// Don't proceed if still validating or re-hydrating after a UUID change
+		if (isValidating || isHydrating) {
 			return;
 		}
 
 		const urlPage = urlParams.params[pageParamName] ?? null;
 		const entryPoint = graph.entryPoint || null;
 		const isEntryPoint = urlPage === entryPoint;
-		const uuidExists = enableState ? stateManager.hasState(flowUuid) : false;
+		let reason = checkExpired();
+
+		// Navigating to the entry point on an expired or completed UUID starts over
+		if (
+			reason &&
+			reason !== "missing" &&
+			(isEntryPoint || !urlPage) &&
+			!(currentPage === "__expired__" && expiredUrlPageRef.current === urlPage)
+		) {
+			stateManager.clearState(flowUuid);
+			hasInitializedRef.current = false;
+			setHistory(EMPTY_FLOW_HISTORY);
+			reason = "missing";
+		}
+		const uuidExists = enableState && reason !== "missing";
 
 		// Check page existence first: unknown page → not found (regardless of UUID state)
 		if (urlPage && !graph.nodes.has(urlPage)) {
@@ -284,9 +1096,11 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			return;
 		}
 
-		// When state enabled: page exists but no state for UUID → expired
-		if (enableState && !uuidExists && urlPage && !isEntryPoint) {
+		// When state enabled: page exists but no valid state for UUID → expired
+		if (reason && (reason !== "missing" || (urlPage && !isEntryPoint))) {
 			if (currentPage !== "__expired__") {
+				setExpiredReason(reason);
+				expiredUrlPageRef.current = urlPage;
 				setCurrentPage("__expired__");
 				onPageChange?.("__expired__", currentPage, allState);
 			}
@@ -299,6 +1113,7 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			urlPage &&
 			graph.nodes.has(urlPage)
 		) {
+			setHistory((prev) => syncVisit(prev, urlPage));
 			setCurrentPage(urlPage);
 			onPageChange?.(urlPage, currentPage, allState);
 		}
@@ -309,8 +1124,9 @@ export function Flow({ graph, config = {} }: FlowProps) {
 				urlPage &&
 				urlPage !== currentPage &&
 				graph.nodes.has(urlPage) &&
-				(enableState ? uuidExists : true)
+				!reason
 			) {
+				setHistory((prev) => syncVisit(prev, urlPage));
 				setCurrentPage(urlPage);
 				onPageChange?.(urlPage, currentPage, allState);
 			} else {
@@ -326,6 +1142,13 @@ export function Flow({ graph, config = {} }: FlowProps) {
 				(isEntryPoint || !urlPage)
 			) {
 				stateManager.preRegisterState(graph, flowUuid);
+				const now = Date.now();
+				stateManager.setMetadata(flowUuid, {
+					createdAt: now,
+					updatedAt: now,
+					version,
+					graphKey,
+				});
 				hasInitializedRef.current = true;
 				setStateVersion((prev) => prev + 1);
 			} else if (uuidExists) {
@@ -337,40 +1160,94 @@ export function Flow({ graph, config = {} }: FlowProps) {
 
 		// If URL has a page param and it's different from current page
 		if (urlPage && urlPage !== currentPage && graph.nodes.has(urlPage)) {
+			// An in-app Back popped the URL: its guards already ran
+			const pendingPop = pendingPopRef.current;
+			pendingPopRef.current = null;
+			if (pendingPop?.page === urlPage) {
+				pendingPop.apply();
+				return;
+			}
+
+			// An async skip check or guard for this URL page is already running
+			if (pendingUrlPageRef.current === urlPage) {
+				return;
+			}
+
+			// Back when the URL moves to the previously visited page or the page's fallback
+			const direction: NavigationDirection =
+				visitedPages[visitedPages.length - 2] === urlPage ||
+				(currentPage &&
+					getNode(graph, currentPage)?.previousPageFallback === urlPage)
+					? "back"
+					: "jump";
+
 			// Check if the URL page should be skipped (handles browser back/forward landing on skipped pages)
-			if (shouldSkipStep(graph, urlPage, allState)) {
-				// Determine direction: if urlPage is the previous page from current, we're going back
-				const prevFromCurrent = currentPage
-					? getPreviousPage(graph, currentPage, allState)
-					: null;
-				const isGoingBack = prevFromCurrent === urlPage;
-
-				// Get the appropriate non-skipped page based on direction
-				const targetPage = isGoingBack
-					? getPreviousPage(graph, urlPage, allState)
-					: getNextPage(graph, urlPage, allState);
-
-				if (targetPage) {
-					// Replace the skipped page in URL with the appropriate non-skipped page
-					urlParams.replaceParam(pageParamName, targetPage);
-					setCurrentPage(targetPage);
-					onPageChange?.(targetPage, currentPage, allState);
+			const skip = shouldSkipStepAsync(graph, urlPage, allState);
+			const targetPage = chain(skip, (shouldSkip) => {
+				if (!shouldSkip) {
+					return urlPage;
 				}
-			} else {
-				// Normal navigation - page is not skipped, URL drives the state
-				setCurrentPage(urlPage);
-				onPageChange?.(urlPage, currentPage, allState);
+
+				// Keep moving in the same direction past the skipped page
+				return direction === "back"
+					? getPreviousPageAsync(graph, urlPage, allState)
+					: getNextPageAsync(graph, urlPage, allState);
+			});
+
+			// Then let the guards allow, cancel or redirect the navigation
+			const destination = chain(targetPage, (page) =>
+				page
+					? chain(guardNavigation(page, direction), (allowed) => ({
+							allowed,
+						}))
+					: null,
+			);
+
+			if (isPromiseLike(destination)) {
+				pendingUrlPageRef.current = urlPage;
 			}
+			runNavigation(
+				destination,
+				(result) => {
+					if (!result) {
+						return;
+					}
+					const page = result.allowed;
+					if (!page) {
+						// Rejected: put the current page back in the URL, replacing the
+						// entry so repeated rejections don't pile up history entries
+						if (currentPage) {
+							replacePageParam(currentPage);
+						}
+						return;
+					}
+					if (page !== urlPage) {
+						// Replace the skipped (or redirected) page in URL with the page shown
+						replacePageParam(page);
+					}
+					setHistory((prev) => syncVisit(prev, page));
+					setCurrentPage(page);
+					onPageChange?.(page, currentPage, allState);
+				},
+				`Navigating to "${urlPage}"`,
+				() => {
+					if (pendingUrlPageRef.current === urlPage) {
+						pendingUrlPageRef.current = null;
+					}
+				},
+			);
 		} else if (!urlPage) {
 			// If URL has no page param, sync to entry point
 			if (entryPoint && entryPoint !== currentPage) {
 				const previousPage = currentPage;
+				setHistory((prev) => syncVisit(prev, entryPoint));
 				setCurrentPage(entryPoint);
-				urlParams.setParam(pageParamName, entryPoint);
+				pushPageParam(entryPoint);
 				onPageChange?.(entryPoint, previousPage, allState);
 			} else if (!entryPoint && currentPage) {
 				// No entry point and no URL param, clear current page
 				const previousPage = currentPage;
+				setHistory(EMPTY_FLOW_HISTORY);
 				setCurrentPage(null);
 				onPageChange?.(null, previousPage, allState);
 			}
@@ -386,7 +1263,16 @@ export function Flow({ graph, config = {} }: FlowProps) {
 		stateManager,
 		flowUuid,
 		isValidating,
+		isHydrating,
 		enableState,
+		checkExpired,
+		version,
+		visitedPages,
+		runNavigation,
+		guardNavigation,
+		pushPageParam,
+		replacePageParam,
+		graphKey,
 	]);
 
 	// Check if current page should be skipped and navigate if needed
@@ -399,70 +1285,147 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			return;
 		}
 
-		// Check if current page should be skipped
-		if (shouldSkipStep(graph, currentPage, allState)) {
-			setIsCheckingSkip(true);
-			skipCheckRef.current = true;
-
-			// Find next non-skipped page
-			const nextPage = getNextPage(graph, currentPage, allState);
+		if (skipCheckedRef.current.page !== currentPage) {
+			skipCheckedRef.current = { page: currentPage, async: false };
+		} else if (skipCheckedRef.current.async) {
+			return;
+		}
 
-			if (nextPage) {
-				// Replace URL (don't add to history) since we're skipping
-				urlParams.replaceParam(pageParamName, nextPage);
-				setCurrentPage(nextPage);
-				onPageChange?.(nextPage, currentPage, allState);
-			}
+		// Check if current page should be skipped
+		const skip = shouldSkipStepAsync(graph, currentPage, allState);
+		if (skip === false) {
+			return;
+		}
 
-			setIsCheckingSkip(false);
+		if (isPromiseLike(skip)) {
+			skipCheckedRef.current.async = true;
+			setSkipCheckPage(currentPage);
 		}
-	}, [currentPage, graph, allState, pageParamName, urlParams, onPageChange]);
+		skipCheckRef.current = true;
+
+		// Find next non-skipped page
+		runNavigation(
+			chain(skip, (shouldSkip) =>
+				shouldSkip ? getNextPageAsync(graph, currentPage, allState) : null,
+			),
+			(nextPage) => {
+				if (nextPage) {
+					// Replace URL (don't add to history) since we're skipping
+					replacePageParam(nextPage);
+					setHistory((prev) => replaceVisit(prev, nextPage, "forward"));
+					setCurrentPage(nextPage);
+					onPageChange?.(nextPage, currentPage, allState);
+				}
+			},
+			`Checking whether to skip "${currentPage}"`,
+			() => {
+				// Later navigations from this page aren't skip checks
+				setSkipCheckPage(null);
+			},
+		);
+	}, [
+		currentPage,
+		graph,
+		allState,
+		onPageChange,
+		runNavigation,
+		replacePageParam,
+	]);
 
 	// Navigation functions
-	const goToNext = useCallback(() => {
-		if (!currentPage) {
+	// Goes back to the last visited page that isn't skipped now, or to the current
+	// page's previousPageFallback when no page was visited before it.
+	// Uses the flow's own history, so it never leaves the site or the frame.
+	const goToPrevious = useCallback(() => {
+		if (!currentPage || !graph.nodes.has(currentPage)) {
 			return;
 		}
-
-		const nextPage = getNextPage(graph, currentPage, allState);
-		if (!nextPage) {
+		if (isReadOnly) {
+			warnReadOnly();
 			return;
 		}
 
 		const previousPage = currentPage;
 
-		// Check if we're skipping any steps
-		// If the next page is different from what would be the direct next,
-		// we're skipping steps
-		const currentNode = getNode(graph, currentPage);
-		const directNext = currentNode
-			? resolveNextPage(currentNode, allState)
-			: null;
-
-		// If nextPage is different from directNext, we skipped steps
-		const isSkipping = directNext !== null && directNext !== nextPage;
-
-		// Use replaceParam if skipping (to remove skipped steps from history)
-		// Otherwise use setParam (normal navigation adds to history)
-		if (isSkipping) {
-			// When skipping, replace current entry to avoid skipped pages in history
-			urlParams.replaceParam(pageParamName, nextPage);
-		} else {
-			// Normal navigation - add to history
-			urlParams.setParam(pageParamName, nextPage);
-		}
-
-		setCurrentPage(nextPage);
-		onPageChange?.(nextPage, previousPage, allState);
-	}, [graph, currentPage, allState, onPageChange, pageParamName, urlParams]);
+		const findPrevious = (
+			index: number,
+		): MaybePromise<{ page: string; index: number } | null> => {
+			if (index < 0) {
+				const fallback = getNode(graph, previousPage)?.previousPageFallback;
+				return fallback && graph.nodes.has(fallback)
+					? { page: fallback, index: -1 }
+					: null;
+			}
+			const page = visitedPages[index];
+			if (!graph.nodes.has(page)) {
+				return findPrevious(index - 1);
+			}
+			return chain(shouldSkipStepAsync(graph, page, allState), (skip) =>
+				skip ? findPrevious(index - 1) : { page, index },
+			);
+		};
+
+		const resolution = chain(
+			findPrevious(visitedPages.lastIndexOf(previousPage) - 1),
+			(previous) =>
+				previous
+					? chain(guardNavigation(previous.page, "back"), (target) =>
+							target ? { target, previous } : null,
+						)
+					: null,
+		);
 
-	const goToPrevious = useCallback(() => {
-		// Use browser history back - the history is already correct because skipped pages
-		// are replaced with replaceParam, so history.back() will go to the correct previous page
-		if (typeof window !== "undefined" && window.history.length > 1) {
-			window.history.back();
-		}
-	}, []);
+		runNavigation(
+			resolution,
+			(resolved) => {
+				if (!resolved) {
+					return;
+				}
+				const { target, previous } = resolved;
+				const apply = () => {
+					setHistory((prev) =>
+						target !== previous.page
+							? pushVisit(prev, target, "jump")
+							: previous.index >= 0
+								? backVisit(prev, previous.index)
+								: replaceVisit(prev, target, "back"),
+					);
+					setCurrentPage(target);
+					onPageChange?.(target, previousPage, allState);
+				};
+
+				// Pop the URL when the entry below is the target, so the browser's
+				// Back keeps going back from there; the page changes once the URL
+				// does. Otherwise replace the entry: the visited pages, not browser
+				// history, drive going back.
+				const entries = pageEntriesRef.current;
+				if (
+					urlParams.back &&
+					entries[entries.length - 1] === previousPage &&
+					entries[entries.length - 2] === target
+				) {
+					pendingPopRef.current = { page: target, apply };
+					urlParams.back();
+					return;
+				}
+				apply();
+				replacePageParam(target);
+			},
+			`Going back from "${currentPage}"`,
+		);
+	}, [
+		graph,
+		currentPage,
+		visitedPages,
+		allState,
+		onPageChange,
+		urlParams,
+		isReadOnly,
+		warnReadOnly,
+		runNavigation,
+		guardNavigation,
+		replacePageParam,
+	]);
 
 	const goToPage = useCallback(
 		(page: string) => {
@@ -470,14 +1433,38 @@ export function Flow({ graph, config = {} }: FlowProps) {
 				console.warn(`Page "${page}" does not exist in graph`);
 				return;
 			}
+			if (isReadOnly) {
+				warnReadOnly();
+				return;
+			}
 
 			const previousPage = currentPage;
 
-			setCurrentPage(page);
-			urlParams.setParam(pageParamName, page);
-			onPageChange?.(page, previousPage, allState);
+			runNavigation(
+				guardNavigation(page, "jump"),
+				(target) => {
+					if (!target) {
+						return;
+					}
+					setHistory((prev) => pushVisit(prev, target, "jump"));
+					setCurrentPage(target);
+					pushPageParam(target);
+					onPageChange?.(target, previousPage, allState);
+				},
+				`Navigating to "${page}"`,
+			);
 		},
-		[graph, currentPage, allState, onPageChange, pageParamName, urlParams],
+		[
+			graph,
+			currentPage,
+			allState,
+			onPageChange,
+			isReadOnly,
+			warnReadOnly,
+			runNavigation,
+			guardNavigation,
+			pushPageParam,
+		],
 	);
 
 	const skipToPage = useCallback(
@@ -486,14 +1473,38 @@ export function Flow({ graph, config = {} }: FlowProps) {
 				console.warn(`Page "${page}" does not exist in graph`);
 				return;
 			}
+			if (isReadOnly) {
+				warnReadOnly();
+				return;
+			}
 
 			const previousPage = currentPage;
 
-			setCurrentPage(page);
-			urlParams.replaceParam(pageParamName, page);
-			onPageChange?.(page, previousPage, allState);
+			runNavigation(
+				guardNavigation(page, "jump"),
+				(target) => {
+					if (!target) {
+						return;
+					}
+					setHistory((prev) => replaceVisit(prev, target, "jump"));
+					setCurrentPage(target);
+					replacePageParam(target);
+					onPageChange?.(target, previousPage, allState);
+				},
+				`Navigating to "${page}"`,
+			);
 		},
-		[graph, currentPage, allState, onPageChange, pageParamName, urlParams],
+		[
+			graph,
+			currentPage,
+			allState,
+			onPageChange,
+			isReadOnly,
+			warnReadOnly,
+			runNavigation,
+			guardNavigation,
+			replacePageParam,
+		],
 	);
 
 	// Skip current page and navigate to next non-skipped page
@@ -502,77 +1513,364 @@ export function Flow({ graph, config = {} }: FlowProps) {
 		if (!currentPage) {
 			return;
 		}
+		if (isReadOnly) {
+			warnReadOnly();
+			return;
+		}
 
-		setIsCheckingSkip(true);
 		skipCheckRef.current = true;
 
 		// Find next non-skipped page
-		const nextPage = getNextPage(graph, currentPage, allState);
+		runNavigation(
+			getNextPageAsync(graph, currentPage, allState),
+			(nextPage) => {
+				if (nextPage) {
+					// Replace URL (don't add to history) since we're skipping
+					// This ensures skipped pages don't appear in browser history
+					replacePageParam(nextPage);
+					setHistory((prev) => replaceVisit(prev, nextPage, "forward"));
+					setCurrentPage(nextPage);
+					onPageChange?.(nextPage, currentPage, allState);
+				}
+			},
+			`Resolving the next page of "${currentPage}"`,
+		);
+	}, [
+		currentPage,
+		graph,
+		allState,
+		onPageChange,
+		isReadOnly,
+		warnReadOnly,
+		runNavigation,
+		replacePageParam,
+	]);
 
-		if (nextPage) {
-			// Replace URL (don't add to history) since we're skipping
-			// This ensures skipped pages don't appear in browser history
-			urlParams.replaceParam(pageParamName, nextPage);
-			setCurrentPage(nextPage);
-			onPageChange?.(nextPage, currentPage, allState);
+	// Records user activity for the idle timeout (throttled unless forced)
+	const touchActivity = useCallback(
+		(force = false) => {
+			if (!enableState || checkExpired()) {
+				return;
+			}
+			const metadata = stateManager.getMetadata(flowUuid);
+			const now = Date.now();
+			if (
+				!force &&
+				metadata &&
+				now - metadata.updatedAt < ACTIVITY_THROTTLE_MS
+			) {
+				return;
+			}
+			stateManager.setMetadata(flowUuid, {
+				createdAt: now,
+				version,
+				graphKey,
+				...metadata,
+				updatedAt: now,
+			});
+			setStateVersion((prev) => prev + 1);
+		},
+		[enableState, checkExpired, stateManager, flowUuid, version, graphKey],
+	);
+
+	// Keeps a completion marker so revisiting the UUID shows "completed"
+	const markCompleted = useCallback(() => {
+		const metadata = stateManager.getMetadata(flowUuid);
+		const now = Date.now();
+		stateManager.clearState(flowUuid);
+		stateManager.setMetadata(flowUuid, {
+			createdAt: now,
+			updatedAt: now,
+			version,
+			...metadata,
+			completedAt: metadata?.completedAt ?? now,
+		});
+	}, [stateManager, flowUuid, version]);
+
+	const extendSession = useCallback(() => {
+		touchActivity(true);
+	}, [touchActivity]);
+
+	// Navigation counts as activity
+	useEffect(() => {
+		if (currentPage && graph.nodes.has(currentPage)) {
+			touchActivity();
 		}
+	}, [currentPage, graph, touchActivity]);
 
-		setIsCheckingSkip(false);
-	}, [currentPage, graph, allState, pageParamName, urlParams, onPageChange]);
+	// Persist visited pages so going back survives reloads
+	useEffect(() => {
+		if (!enableState || visitedPages.length === 0) {
+			return;
+		}
+		const metadata = stateManager.getMetadata(flowUuid);
+		if (!metadata || metadata.completedAt !== undefined) {
+			return;
+		}
+		stateManager.setMetadata(flowUuid, { ...metadata, visitedPages });
+	}, [enableState, stateManager, flowUuid, visitedPages]);
+
+	// When the flow expires from max age or inactivity
+	const expiresAt = useMemo(() => {
+		const _ = stateVersion;
+		if (!enableState || (maxAge === undefined && idleTimeout === undefined)) {
+			return null;
+		}
+		return getExpiresAt(stateManager.getMetadata(flowUuid), {
+			maxAge,
+			idleTimeout,
+		});
+	}, [stateVersion, enableState, maxAge, idleTimeout, stateManager, flowUuid]);
+
+	// Show the expired page as soon as the deadline passes
+	useEffect(() => {
+		if (
+			expiresAt === null ||
+			!currentPage ||
+			currentPage === "__expired__" ||
+			currentPage === "__notfound__"
+		) {
+			return;
+		}
+
+		const timer = setTimeout(
+			() => {
+				const reason = checkExpired();
+				if (!reason) {
+					return;
+				}
+				setExpiredReason(reason);
+				expiredUrlPageRef.current = urlParams.getParam(pageParamName);
+				setCurrentPage("__expired__");
+				onPageChange?.("__expired__", currentPage, allState);
+			},
+			Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMEOUT_MS),
+		);
+
+		return () => {
+			clearTimeout(timer);
+		};
+	}, [
+		expiresAt,
+		currentPage,
+		checkExpired,
+		urlParams,
+		pageParamName,
+		onPageChange,
+		allState,
+	]);
+
+	// Tell other tabs where this tab is
+	useEffect(() => {
+		if (currentPage && graph.nodes.has(currentPage)) {
+			broadcastPage(currentPage);
+		}
+	}, [currentPage, graph, broadcastPage]);
 
 	// Complete flow and clear state (session storage when enabled, in-memory when disabled)
 	// User is responsible for handling navigation/redirect after calling this
 	const completeFlow = useCallback(() => {
+		if (isReadOnly) {
+			warnReadOnly();
+			return;
+		}
 		if (enableState) {
-			stateManager.clearState(flowUuid);
+			markCompleted();
 		} else {
 			setMemoryEntries([]);
 		}
-	}, [enableState, stateManager, flowUuid]);
+		broadcastClear();
+	}, [isReadOnly, warnReadOnly, enableState, markCompleted, broadcastClear]);
+
+	// Resume tokens carry the visited pages so going back works after resuming
+	const createResumeToken = useCallback(() => {
+		if (!currentPage || !graph.nodes.has(currentPage)) {
+			return Promise.reject(new Error("There is no page to resume"));
+		}
+		return encodeResumeToken(
+			{ page: currentPage, state: allState, visitedPages, version },
+			{ sign: resumeSignRef.current },
+		);
+	}, [currentPage, graph, allState, visitedPages, version]);
 
 	// State update functions
 	const updateState = useCallback(
 		(key: string, value: unknown) => {
 			if (!currentPage) return;
+			if (isReadOnly) {
+				warnReadOnly();
+				return;
+			}
 			if (enableState) {
 				stateManager.setState(flowUuid, currentPage, key, value);
 				setStateVersion((prev) => prev + 1);
+				touchActivity();
 			} else {
-				setMemoryEntries((prev) => {
-					const next = [...prev];
-					const i = next.findIndex((e) => e.page === currentPage);
-					const entry =
-						i >= 0 ? { ...next[i] } : { page: currentPage, state: {} };
-					entry.state = { ...entry.state, [key]: value };
-					if (i >= 0) next[i] = entry;
-					else next.push(entry);
-					return next;
-				});
+				setMemoryEntries((prev) =>
+					mergeMemoryEntry(prev, currentPage, { [key]: value }),
+				);
 			}
+			broadcastState(currentPage, { [key]: value });
 		},
-		[currentPage, enableState, stateManager, flowUuid],
+		[
+			currentPage,
+			isReadOnly,
+			warnReadOnly,
+			enableState,
+			stateManager,
+			flowUuid,
+			broadcastState,
+			touchActivity,
+		],
 	);
 
 	const updateStateBatch = useCallback(
 		(updates: Record<string, unknown>) => {
 			if (!currentPage) return;
+			if (isReadOnly) {
+				warnReadOnly();
+				return;
+			}
 			if (enableState) {
 				stateManager.setStateBatch(flowUuid, currentPage, updates);
 				setStateVersion((prev) => prev + 1);
+				touchActivity();
 			} else {
-				setMemoryEntries((prev) => {
-					const next = [...prev];
-					const i = next.findIndex((e) => e.page === currentPage);
-					const entry =
-						i >= 0 ? { ...next[i] } : { page: currentPage, state: {} };
-					entry.state = { ...entry.state, ...updates };
-					if (i >= 0) next[i] = entry;
-					else next.push(entry);
-					return next;
-				});
+				setMemoryEntries((prev) =>
+					mergeMemoryEntry(prev, currentPage, updates),
+				);
+			}
+			broadcastState(currentPage, updates);
+		},
+		[
+			currentPage,
+			isReadOnly,
+			warnReadOnly,
+			enableState,
+			stateManager,
+			flowUuid,
+			broadcastState,
+			touchActivity,
+		],
+	);
+
+	// Updates are applied first and the next page is resolved against the
+	// updated state (allState only catches up on the next render)
+	const updateStateAndGoToNext = useCallback(
+		(updates?: Record<string, unknown>) => {
+			if (!currentPage) {
+				return;
+			}
+			if (isReadOnly) {
+				warnReadOnly();
+				return;
+			}
+
+			let state = allState;
+			if (updates) {
+				updateStateBatch(updates);
+				state = {
+					...allState,
+					[currentPage]: { ...allState[currentPage], ...updates },
+				};
+			}
+
+			// Don't advance past a page with validation errors
+			setValidatedPage(currentPage);
+			if (!isPageValid(getPageErrors(graph, currentPage, state))) {
+				return;
+			}
+
+			const currentNode = getNode(graph, currentPage);
+			if (!currentNode) {
+				return;
 			}
+
+			const previousPage = currentPage;
+
+			// Resolve the direct next page, then the first non-skipped page from it
+			const resolution = chain(
+				resolveNextPageAsync(currentNode, state),
+				(directNext) => {
+					if (!directNext) {
+						return null;
+					}
+
+					// Validate that the next page exists in the graph
+					if (!graph.nodes.has(directNext)) {
+						console.warn(`Next page "${directNext}" does not exist in graph`);
+						return null;
+					}
+
+					return chain(
+						getNextNonSkippedPageAsync(graph, directNext, state),
+						(nextPage) => {
+							if (!nextPage) {
+								return null;
+							}
+
+							// Guards may cancel or redirect
+							return chain(
+								guardNavigation(nextPage, "forward", state),
+								(target) =>
+									target
+										? // If nextPage is different from directNext, we skipped steps
+											{
+												nextPage: target,
+												isSkipping:
+													target === nextPage && nextPage !== directNext,
+											}
+										: null,
+							);
+						},
+					);
+				},
+			);
+
+			runNavigation(
+				resolution,
+				(resolved) => {
+					if (!resolved) {
+						return;
+					}
+					const { nextPage, isSkipping } = resolved;
+
+					// Use replaceParam if skipping (to remove skipped steps from history)
+					// Otherwise use setParam (normal navigation adds to history)
+					if (isSkipping) {
+						// When skipping, replace current entry to avoid skipped pages in history
+						replacePageParam(nextPage);
+					} else {
+						// Normal navigation - add to history
+						pushPageParam(nextPage);
+					}
+
+					// Skipped pages were never shown, so they aren't in the visited pages
+					setHistory((prev) => pushVisit(prev, nextPage, "forward"));
+					setCurrentPage(nextPage);
+					onPageChange?.(nextPage, previousPage, state);
+				},
+				`Resolving the next page of "${currentPage}"`,
+			);
 		},
-		[currentPage, enableState, stateManager, flowUuid],
+		[
+			graph,
+			currentPage,
+			allState,
+			isReadOnly,
+			warnReadOnly,
+			updateStateBatch,
+			onPageChange,
+			runNavigation,
+			guardNavigation,
+			pushPageParam,
+			replacePageParam,
+		],
+	);
+
+	const goToNext = useCallback(
+		() => updateStateAndGoToNext(),
+		[updateStateAndGoToNext],
 	);
 
 	const getPageState = useCallback(
@@ -601,13 +1899,50 @@ export function Flow({ graph, config = {} }: FlowProps) {
 		[graph],
 	);
 
-	const hasNext = useCallback(() => {
-		if (!currentPage) {
-			return false;
+	// Resolvers run in an effect, never during render. Until the current page's
+	// answer is in, a page with a nextPage counts as having a next page.
+	const [resolvedNext, setResolvedNext] = useState<{
+		page: string;
+		hasNext: boolean;
+	} | null>(null);
+
+	useEffect(() => {
+		if (!currentPage || !graph.nodes.has(currentPage)) {
+			return;
 		}
-		return getNextPage(graph, currentPage, allState) !== null;
+
+		let cancelled = false;
+		const settle = (nextPage: string | null) => {
+			if (!cancelled) {
+				setResolvedNext({ page: currentPage, hasNext: nextPage !== null });
+			}
+		};
+		const nextPage = getNextPageAsync(graph, currentPage, allState);
+		if (isPromiseLike(nextPage)) {
+			nextPage.then(settle, () => settle(null));
+		} else {
+			settle(nextPage);
+		}
+
+		return () => {
+			cancelled = true;
+		};
 	}, [graph, currentPage, allState]);
 
+	const hasNextPage =
+		!!currentPage &&
+		(resolvedNext?.page === currentPage
+			? resolvedNext.hasNext
+			: !!getNode(graph, currentPage)?.nextPage);
+
+	const hasNext = useCallback(() => hasNextPage, [hasNextPage]);
+
+	const canGoBack =
+		!!currentPage &&
+		graph.nodes.has(currentPage) &&
+		(visitedPages.lastIndexOf(currentPage) > 0 ||
+			!!getNode(graph, currentPage)?.previousPageFallback);
+
 	// Build context value
 	const contextValue: FlowContextValue = useMemo(
 		() => ({
@@ -619,6 +1954,7 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			skipToPage,
 			updateState,
 			updateStateBatch,
+			updateStateAndGoToNext,
 			getPageState,
 			getCurrentNode,
 			getNode: getNodeByPage,
@@ -628,6 +1964,20 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			getUrlParam: urlParams.getParam,
 			getAllUrlParams: urlParams.getAllParams,
 			urlParams: urlParams.params,
+			isReadOnly,
+			remotePage,
+			expiredReason: currentPage === "__expired__" ? expiredReason : null,
+			expiresAt,
+			extendSession,
+			isNavigating,
+			navigationError,
+			visitedPages,
+			canGoBack,
+			navigationDirection,
+			errors,
+			isValid,
+			validateCurrentPage,
+			createResumeToken,
 		}),
 		[
 			currentPage,
@@ -638,6 +1988,7 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			skipToPage,
 			updateState,
 			updateStateBatch,
+			updateStateAndGoToNext,
 			getPageState,
 			getCurrentNode,
 			getNodeByPage,
@@ -645,6 +1996,20 @@ export function Flow({ graph, config = {} }: FlowProps) {
 			skipCurrentPage,
 			completeFlow,
 			urlParams,
+			isReadOnly,
+			remotePage,
+			expiredReason,
+			expiresAt,
+			extendSession,
+			isNavigating,
+			navigationError,
+			visitedPages,
+			canGoBack,
+			navigationDirection,
+			errors,
+			isValid,
+			validateCurrentPage,
+			createResumeToken,
 		],
 	);
 
@@ -652,14 +2017,14 @@ export function Flow({ graph, config = {} }: FlowProps) {
 
 	// Don't render anything while validating initial state (entry point + session storage check)
 	// This prevents flicker when navigating to a non-entry-point page without state
-	if (isValidating) {
+	if (isValidating && syncInitialPage === undefined) {
 		return null;
 	}
 
 	if (isCheckingSkip) {
 		return (
 			<FlowContext.Provider value={contextValue}>
-				<div />
+				{pendingFallback}
 			</FlowContext.Provider>
 		);
 	}
@@ -0,0 +1,415 @@
+import { METADATA_PAGE } from "@/flow/flowStateManagers";
+import { getPagesInOrder } from "@/flow/graphHelpers";
+import type {
+	AsyncFlowStateStorage,
+	FlowGraph,
+	FlowMetadata,
+	FlowState,
+	FlowStateByPage,
+	FlowStateStorage,
+} from "@/flow/types";
+
+/**
+ * Default delay before pending writes are persisted
+ */
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/**
+ * Options for AsyncStateManager
+ */
+export type AsyncStateManagerOptions = {
+	/**
+	 * Delay in ms before pending writes are persisted (defaults to 300).
+	 * Writes within the window are coalesced into a single save.
+	 */
+	debounceMs?: number;
+};
+
+/**
+ * Flow state manager backed by an async persistence adapter.
+ * Reads and writes go to an in-memory cache so rendering never waits on I/O;
+ * the cache is hydrated once per UUID and writes are debounced to the adapter.
+ *
+ * @example
+ * ```ts
+ * const stateManager = new AsyncStateManager(new IndexedDBStateAdapter());
+ * <Flow graph={graph} config={{ stateManager }} />
+ * ```
+ */
+export class AsyncStateManager implements FlowStateStorage {
+	private adapter: AsyncFlowStateStorage;
+	private debounceMs: number;
+	private cache = new Map<string, FlowStateByPage>();
+	private hydrating = new Map<string, Promise<void>>();
+	private timers = new Map<string, ReturnType<typeof setTimeout>>();
+	private saving = new Map<string, Promise<void>>();
+	private listeners = new Set<(uuid: string) => void>();
+	private listeningForPageHide = false;
+
+	constructor(
+		adapter: AsyncFlowStateStorage,
+		options: AsyncStateManagerOptions = {},
+	) {
+		this.adapter = adapter;
+		this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+	}
+
+	/**
+	 * Loads persisted state for a UUID into the cache.
+	 * Resolves immediately if the UUID was already hydrated.
+	 */
+	hydrate(uuid: string): Promise<void> {
+		if (this.cache.has(uuid)) {
+			return Promise.resolve();
+		}
+
+		const pending = this.hydrating.get(uuid);
+		if (pending) {
+			return pending;
+		}
+
+		const promise = this.adapter
+			.load(uuid)
+			.then((stored) => {
+				// Writes made while loading win over the stored copy
+				if (stored && !this.cache.has(uuid)) {
+					this.cache.set(uuid, stored);
+				}
+			})
+			.catch((error) => {
+				console.error(`Failed to load state for UUID "${uuid}":`, error);
+			})
+			.finally(() => {
+				this.hydrating.delete(uuid);
+			});
+
+		this.hydrating.set(uuid, promise);
+		return promise;
+	}
+
+	/**
+	 * Persists pending writes immediately.
+	 * Pass a UUID to flush only that flow.
+	 */
+	async flush(uuid?: string): Promise<void> {
+		const uuids = uuid ? [uuid] : [...this.timers.keys()];
+		await Promise.all(uuids.map((id) => this.persist(id)));
+	}
+
+	/**
+	 * Subscribes to cache updates that didn't come from Flow, i.e. the state
+	 * adopted from the adapter after a save (such as a conflict merge)
+	 */
+	subscribe(listener: (uuid: string) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Writes the cached state for a UUID through the adapter, after any save
+	 * of that UUID still in flight (so it is sent against the latest version)
+	 */
+	private async persist(uuid: string): Promise<void> {
+		const timer = this.timers.get(uuid);
+		if (timer === undefined) {
+			return;
+		}
+		clearTimeout(timer);
+		this.timers.delete(uuid);
+
+		const saving: Promise<void> = (
+			this.saving.get(uuid) ?? Promise.resolve()
+		).then(() => this.write(uuid, saving));
+		this.saving.set(uuid, saving);
+		await saving;
+		if (this.saving.get(uuid) === saving) {
+			this.saving.delete(uuid);
+		}
+	}
+
+	/**
+	 * Saves the latest cached state for a UUID
+	 */
+	private async write(uuid: string, saving: Promise<void>): Promise<void> {
+		const state = this.cache.get(uuid);
+		if (!state) {
+			return;
+		}
+
+		try {
+			const persisted = this.adapter.saveMerged
+				? await this.adapter.saveMerged(uuid, state)
+				: await this.adapter.save(uuid, state).then(() => null);
+			// Adopt the stored copy unless newer writes arrived meanwhile
+			const isLatest =
+				!this.timers.has(uuid) && this.saving.get(uuid) === saving;
+			if (persisted && isLatest && this.cache.has(uuid)) {
+				this.cache.set(uuid, persisted);
+				for (const listener of this.listeners) {
+					listener(uuid);
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to save state for UUID "${uuid}":`, error);
+		}
+	}
+
+	/**
+	 * Schedules a debounced save for a UUID
+	 */
+	private scheduleSave(uuid: string): void {
+		const existing = this.timers.get(uuid);
+		if (existing !== undefined) {
+			clearTimeout(existing);
+		}
+		this.timers.set(
+			uuid,
+			setTimeout(() => {
+				void this.persist(uuid);
+			}, this.debounceMs),
+		);
+
+		// Don't lose debounced writes when the tab is closed
+		if (!this.listeningForPageHide && typeof window !== "undefined") {
+			this.listeningForPageHide = true;
+			window.addEventListener("pagehide", () => {
+				void this.flush();
+			});
+		}
+	}
+
+	/**
+	 * Gets the cached state for a UUID, creating it if needed
+	 */
+	private getOrCreate(uuid: string): FlowStateByPage {
+		let byPage = this.cache.get(uuid);
+		if (!byPage) {
+			byPage = {};
+			this.cache.set(uuid, byPage);
+		}
+		return byPage;
+	}
+
+	preRegisterState(graph: FlowGraph, uuid: string): void {
+		const byPage = this.getOrCreate(uuid);
+		for (const page of getPagesInOrder(graph)) {
+			if (!byPage[page]) {
+				byPage[page] = {};
+			}
+		}
+		this.scheduleSave(uuid);
+	}
+
+	getState(uuid: string, page: string): FlowState {
+		return { ...this.cache.get(uuid)?.[page] };
+	}
+
+	setState(uuid: string, page: string, key: string, value: unknown): void {
+		this.setStateBatch(uuid, page, { [key]: value });
+	}
+
+	setStateBatch(
+		uuid: string,
+		page: string,
+		updates: Record<string, unknown>,
+	): void {
+		const byPage = this.getOrCreate(uuid);
+		byPage[page] = { ...byPage[page], ...updates };
+		this.scheduleSave(uuid);
+	}
+
+	getAllState(_graph: FlowGraph, uuid: string): FlowStateByPage {
+		const byPage: FlowStateByPage = {};
+		for (const [page, state] of Object.entries(this.cache.get(uuid) ?? {})) {
+			if (page === METADATA_PAGE) continue;
+			byPage[page] = { ...state };
+		}
+		return byPage;
+	}
+
+	getMetadata(uuid: string): FlowMetadata | null {
+		const metadata = this.cache.get(uuid)?.[METADATA_PAGE];
+		return metadata ? ({ ...metadata } as FlowMetadata) : null;
+	}
+
+	setMetadata(uuid: string, metadata: FlowMetadata): void {
+		this.getOrCreate(uuid)[METADATA_PAGE] = { ...metadata };
+		this.scheduleSave(uuid);
+	}
+
+	hasState(uuid: string): boolean {
+		return this.cache.has(uuid);
+	}
+
+	clearState(uuid: string): void {
+		const timer = this.timers.get(uuid);
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			this.timers.delete(uuid);
+		}
+		this.cache.delete(uuid);
+		this.adapter.remove(uuid).catch((error) => {
+			console.error(`Failed to clear state for UUID "${uuid}":`, error);
+		});
+	}
+
+	/**
+	 * Removes stale flows from the cache and, when the adapter can list its
+	 * flows, from the backend. Flows that are loading are left alone.
+	 */
+	sweep(
+		isStale: (uuid: string, metadata: FlowMetadata | null) => boolean,
+	): void {
+		for (const uuid of [...this.cache.keys()]) {
+			if (isStale(uuid, this.getMetadata(uuid))) {
+				this.clearState(uuid);
+			}
+		}
+
+		if (!this.adapter.list) {
+			return;
+		}
+		this.adapter
+			.list()
+			.then(async (uuids) => {
+				for (const uuid of uuids) {
+					if (this.cache.has(uuid) || this.hydrating.has(uuid)) continue;
+					const stored = await this.adapter.load(uuid);
+					const metadata = stored?.[METADATA_PAGE] as FlowMetadata | undefined;
+					if (isStale(uuid, metadata ?? null)) {
+						await this.adapter.remove(uuid);
+					}
+				}
+			})
+			.catch((error) => {
+				console.error("Failed to sweep stored flows:", error);
+			});
+	}
+
+	clearPageState(uuid: string, page: string): void {
+		const byPage = this.cache.get(uuid);
+		if (!byPage) {
+			return;
+		}
+		delete byPage[page];
+		this.scheduleSave(uuid);
+	}
+}
+
+/**
+ * Options for IndexedDBStateAdapter
+ */
+export type IndexedDBStateAdapterOptions = {
+	/**
+	 * Database name (defaults to "react-maestro-flow")
+	 */
+	databaseName?: string;
+
+	/**
+	 * Object store name (defaults to "flow-state")
+	 */
+	storeName?: string;
+
+	/**
+	 * IndexedDB factory (defaults to window.indexedDB)
+	 */
+	indexedDB?: IDBFactory;
+};
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Async persistence adapter that stores flow state in IndexedDB.
+ * Suited for large payloads (document scans, long free text) that would
+ * exceed the Web Storage quota. Each flow UUID is stored as one record.
+ */
+export class IndexedDBStateAdapter implements AsyncFlowStateStorage {
+	private databaseName: string;
+	private storeName: string;
+	private factory: IDBFactory | undefined;
+	private db: Promise<IDBDatabase> | null = null;
+
+	constructor(options: IndexedDBStateAdapterOptions = {}) {
+		this.databaseName = options.databaseName ?? "react-maestro-flow";
+		this.storeName = options.storeName ?? "flow-state";
+		this.factory =
+			options.indexedDB ??
+			(typeof window !== "undefined" ? window.indexedDB : undefined);
+	}
+
+	/**
+	 * Opens (and creates on first use) the database
+	 */
+	private open(): Promise<IDBDatabase> {
+		if (this.db) {
+			return this.db;
+		}
+
+		const factory = this.factory;
+		if (!factory) {
+			return Promise.reject(new Error("IndexedDB is not available"));
+		}
+
+		this.db = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = factory.open(this.databaseName, 1);
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(this.storeName)) {
+					request.result.createObjectStore(this.storeName);
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error) => {
+			// Allow a retry on the next call
+			this.db = null;
+			throw error;
+		});
+
+		return this.db;
+	}
+
+	/**
+	 * Runs a request against the object store in a new transaction
+	 */
+	private async run<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest<T>,
+	): Promise<T> {
+		const db = await this.open();
+		const store = db
+			.transaction(this.storeName, mode)
+			.objectStore(this.storeName);
+		return requestToPromise(operation(store));
+	}
+
+	async load(uuid: string): Promise<FlowStateByPage | null> {
+		const stored = await this.run<FlowStateByPage | undefined>(
+			"readonly",
+			(store) => store.get(uuid),
+		);
+		return stored ?? null;
+	}
+
+	async save(uuid: string, state: FlowStateByPage): Promise<void> {
+		await this.run("readwrite", (store) => store.put(state, uuid));
+	}
+
+	async remove(uuid: string): Promise<void> {
+		await this.run("readwrite", (store) => store.delete(uuid));
+	}
+
+	async list(): Promise<string[]> {
+		const keys = await this.run("readonly", (store) => store.getAllKeys());
+		return keys.map(String);
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * Listeners for URL changes made through the browser adapters
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Pushes or replaces the browser URL and notifies subscribers
+ */
+export function updateBrowserUrl(url: string, mode: "push" | "replace"): void {
+	if (mode === "push") {
+		window.history.pushState({}, "", url);
+	} else {
+		window.history.replaceState({}, "", url);
+	}
+	for (const listener of [...listeners]) {
+		listener();
+	}
+}
+
+/**
+ * Goes back one browser history entry. Subscribers hear about it through
+ * `popstate` once the browser has moved.
+ */
+export function goBackInBrowser(): void {
+	if (typeof window !== "undefined") {
+		window.history.back();
+	}
+}
+
+/**
+ * Subscribes to browser URL changes: back/forward (`popstate`) and changes
+ * made through any browser adapter. Returns an unsubscribe function.
+ */
+export function subscribeToBrowserUrl(listener: () => void): () => void {
+	if (typeof window === "undefined") {
+		return () => {};
+	}
+	listeners.add(listener);
+	window.addEventListener("popstate", listener);
+	return () => {
+		listeners.delete(listener);
+		window.removeEventListener("popstate", listener);
+	};
+}
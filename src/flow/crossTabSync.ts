@@ -0,0 +1,262 @@
+import type { FlowState } from "@/flow/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * How a tab reacts when another tab edits the same flow UUID
+ * - "follow": apply the other tab's state and navigate to its page
+ * - "warn": apply the other tab's state; expose its page as `remotePage` instead of navigating
+ * - "lock": the first tab owns the flow; later tabs mirror its state read-only
+ */
+export type CrossTabSyncPolicy = "follow" | "warn" | "lock";
+
+/**
+ * Options for cross-tab synchronization
+ */
+export type CrossTabSyncConfig = {
+	/**
+	 * Policy for edits made in other tabs (defaults to "follow")
+	 */
+	policy?: CrossTabSyncPolicy;
+
+	/**
+	 * Channel name prefix (defaults to "react-maestro-flow"). The flow UUID is appended.
+	 */
+	channelName?: string;
+};
+
+/**
+ * Messages exchanged between tabs showing the same flow UUID
+ */
+type CrossTabMessage =
+	| {
+			type: "state";
+			tabId: string;
+			page: string;
+			updates: FlowState;
+	  }
+	| { type: "page"; tabId: string; page: string }
+	| { type: "clear"; tabId: string }
+	| { type: "hello"; tabId: string; openedAt: number }
+	| { type: "owner"; tabId: string; to: string }
+	| { type: "bye"; tabId: string };
+
+/**
+ * A message transport between tabs
+ */
+type CrossTabChannel = {
+	post: (message: CrossTabMessage) => void;
+	close: () => void;
+};
+
+/**
+ * Opens a channel to other tabs. Uses BroadcastChannel when available and
+ * falls back to `storage` events on localStorage.
+ */
+function openChannel(
+	name: string,
+	onMessage: (message: CrossTabMessage) => void,
+): CrossTabChannel | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+
+	if (typeof BroadcastChannel !== "undefined") {
+		const channel = new BroadcastChannel(name);
+		channel.onmessage = (event: MessageEvent<CrossTabMessage>) => {
+			onMessage(event.data);
+		};
+		return {
+			post: (message) => channel.postMessage(message),
+			close: () => channel.close(),
+		};
+	}
+
+	if (!window.localStorage) {
+		return null;
+	}
+
+	const handleStorage = (event: StorageEvent) => {
+		if (event.key !== name || !event.newValue) {
+			return;
+		}
+		try {
+			onMessage(JSON.parse(event.newValue).message as CrossTabMessage);
+		} catch (error) {
+			console.warn(`Failed to parse cross-tab message on "${name}":`, error);
+		}
+	};
+	window.addEventListener("storage", handleStorage);
+
+	return {
+		post: (message) => {
+			// Nonce makes repeated identical messages still fire a storage event
+			window.localStorage.setItem(
+				name,
+				JSON.stringify({ message, nonce: Math.random() }),
+			);
+			window.localStorage.removeItem(name);
+		},
+		close: () => window.removeEventListener("storage", handleStorage),
+	};
+}
+
+/**
+ * Options for useCrossTabSync
+ */
+type UseCrossTabSyncOptions = {
+	/**
+	 * Sync config from FlowConfig (undefined or false disables sync)
+	 */
+	config: boolean | CrossTabSyncConfig | undefined;
+
+	/**
+	 * Flow UUID shared by the tabs
+	 */
+	uuid: string;
+
+	/**
+	 * Applies page state received from another tab
+	 */
+	onRemoteState: (page: string, updates: FlowState) => void;
+
+	/**
+	 * Called when another tab completed the flow
+	 */
+	onRemoteClear: () => void;
+
+	/**
+	 * Navigates to the page another tab moved to ("follow" policy)
+	 */
+	onRemotePage: (page: string) => void;
+};
+
+/**
+ * Keeps flow state in sync across tabs showing the same flow UUID.
+ * Returns broadcast functions for local changes plus the tab's sync status.
+ */
+export function useCrossTabSync({
+	config,
+	uuid,
+	onRemoteState,
+	onRemoteClear,
+	onRemotePage,
+}: UseCrossTabSyncOptions) {
+	const enabled = !!config;
+	const options = typeof config === "object" ? config : {};
+	const policy = options.policy ?? "follow";
+	const channelName = `${options.channelName ?? "react-maestro-flow"}:${uuid}`;
+
+	const [isReadOnly, setIsReadOnly] = useState(false);
+	const [remotePage, setRemotePage] = useState<string | null>(null);
+	const channelRef = useRef<CrossTabChannel | null>(null);
+	const tabRef = useRef({
+		tabId: Math.random().toString(36).slice(2),
+		openedAt: Date.now(),
+	});
+
+	// Keep the latest callbacks without reopening the channel on every render
+	const handlersRef = useRef({ onRemoteState, onRemoteClear, onRemotePage });
+	handlersRef.current = { onRemoteState, onRemoteClear, onRemotePage };
+
+	useEffect(() => {
+		if (!enabled) {
+			return;
+		}
+
+		const { tabId, openedAt } = tabRef.current;
+		setIsReadOnly(false);
+		setRemotePage(null);
+
+		const channel = openChannel(channelName, (message) => {
+			if (message.tabId === tabId) {
+				return;
+			}
+
+			switch (message.type) {
+				case "state":
+					handlersRef.current.onRemoteState(message.page, message.updates);
+					break;
+				case "clear":
+					handlersRef.current.onRemoteClear();
+					break;
+				case "page":
+					if (policy === "follow") {
+						handlersRef.current.onRemotePage(message.page);
+					} else if (policy === "warn") {
+						setRemotePage(message.page);
+					}
+					break;
+				case "hello":
+					// The oldest tab owns the flow; tell newer tabs about it
+					if (
+						policy === "lock" &&
+						(openedAt < message.openedAt ||
+							(openedAt === message.openedAt && tabId < message.tabId))
+					) {
+						channel?.post({ type: "owner", tabId, to: message.tabId });
+					}
+					break;
+				case "owner":
+					if (policy === "lock" && message.to === tabId) {
+						setIsReadOnly(true);
+					}
+					break;
+				case "bye":
+					// A tab closed: re-elect, older tabs will answer our hello
+					if (policy === "lock") {
+						setIsReadOnly(false);
+						channel?.post({ type: "hello", tabId, openedAt });
+					}
+					break;
+			}
+		});
+
+		channelRef.current = channel;
+		if (policy === "lock") {
+			channel?.post({ type: "hello", tabId, openedAt });
+		}
+
+		const handlePageHide = () => {
+			channel?.post({ type: "bye", tabId });
+		};
+		window.addEventListener("pagehide", handlePageHide);
+
+		return () => {
+			window.removeEventListener("pagehide", handlePageHide);
+			if (policy === "lock") {
+				channel?.post({ type: "bye", tabId });
+			}
+			channel?.close();
+			channelRef.current = null;
+		};
+	}, [enabled, channelName, policy]);
+
+	const broadcastState = useCallback((page: string, updates: FlowState) => {
+		channelRef.current?.post({
+			type: "state",
+			tabId: tabRef.current.tabId,
+			page,
+			updates,
+		});
+	}, []);
+
+	const broadcastPage = useCallback((page: string) => {
+		channelRef.current?.post({
+			type: "page",
+			tabId: tabRef.current.tabId,
+			page,
+		});
+	}, []);
+
+	const broadcastClear = useCallback(() => {
+		channelRef.current?.post({ type: "clear", tabId: tabRef.current.tabId });
+	}, []);
+
+	return {
+		isReadOnly,
+		remotePage,
+		broadcastState,
+		broadcastPage,
+		broadcastClear,
+	};
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { initializeFlow } from "@/flow/graphHelpers";
+import type {
+	FlowGraph,
+	FlowNode,
+	FlowState,
+	FlowStateByPage,
+	FlowValidationErrors,
+	MaybePromise,
+	NavigationDirection,
+	NavigationGuardResult,
+	UseFlowReturn,
+} from "@/flow/types";
+import { useFlow } from "@/flow/useFlow";
+import { useEffect } from "react";
+
+/**
+ * Per-page state shapes, keyed by page id.
+ * Example: `{ account: { email: string }; plan: { plan: "pro" | "basic" } }`
+ */
+export type FlowPageStates = Record<string, FlowState>;
+
+/**
+ * Page ids of a typed flow as a string-literal union
+ */
+export type FlowPageId<TPages extends FlowPageStates> = keyof TPages & string;
+
+/**
+ * Accumulated state of a typed flow, keyed by page.
+ * Pages (and their keys) may not be filled in yet, so everything is optional.
+ */
+export type TypedFlowStateByPage<TPages extends FlowPageStates> = {
+	[P in FlowPageId<TPages>]?: Partial<TPages[P]>;
+};
+
+/**
+ * Node definition for a typed flow. Page references are checked against the
+ * declared page ids and resolvers receive the typed accumulated state.
+ */
+export type TypedFlowNode<
+	TPages extends FlowPageStates,
+	TPage extends FlowPageId<TPages> = FlowPageId<TPages>,
+> = Omit<
+	FlowNode,
+	| "currentPage"
+	| "nextPage"
+	| "branches"
+	| "previousPageFallback"
+	| "shouldSkip"
+	| "canEnter"
+	| "canLeave"
+	| "validate"
+> & {
+	nextPage?:
+		| FlowPageId<TPages>
+		| ((
+				state: TypedFlowStateByPage<TPages>,
+		  ) => MaybePromise<FlowPageId<TPages> | null>);
+	branches?: FlowPageId<TPages>[];
+	previousPageFallback?: FlowPageId<TPages>;
+	shouldSkip?: (state: TypedFlowStateByPage<TPages>) => MaybePromise<boolean>;
+	canEnter?: (
+		state: TypedFlowStateByPage<TPages>,
+		direction: NavigationDirection,
+	) => MaybePromise<NavigationGuardResult<FlowPageId<TPages>>>;
+	canLeave?: (
+		state: TypedFlowStateByPage<TPages>,
+		direction: NavigationDirection,
+	) => MaybePromise<NavigationGuardResult<FlowPageId<TPages>>>;
+	validate?: (
+		pageState: Partial<TPages[TPage]>,
+		allState: TypedFlowStateByPage<TPages>,
+	) => FlowValidationErrors<keyof TPages[TPage] & string> | null | undefined;
+};
+
+/**
+ * Typed flow definition: one node per declared page plus the entry point
+ */
+export type TypedFlowDefinition<TPages extends FlowPageStates> = {
+	entryPoint: FlowPageId<TPages>;
+	nodes: { [P in FlowPageId<TPages>]: TypedFlowNode<TPages, P> };
+};
+
+/**
+ * Return type of a typed flow's useFlow(page).
+ * Navigation only accepts declared page ids; stateKey/updateState and errors
+ * are typed against the state shape of `TPage`.
+ */
+export type TypedUseFlowReturn<
+	TPages extends FlowPageStates,
+	TPage extends FlowPageId<TPages> = FlowPageId<TPages>,
+> = Omit<
+	UseFlowReturn,
+	| "currentPage"
+	| "state"
+	| "goToPage"
+	| "skipToPage"
+	| "getPageState"
+	| "updateState"
+	| "updateStateBatch"
+	| "updateStateAndGoToNext"
+	| "stateKey"
+	| "errors"
+	| "visitedPages"
+> & {
+	currentPage: FlowPageId<TPages> | "__expired__" | "__notfound__" | null;
+	state: TypedFlowStateByPage<TPages>;
+	goToPage: (page: FlowPageId<TPages>) => void;
+	skipToPage: (page: FlowPageId<TPages>) => void;
+	getPageState: <P extends FlowPageId<TPages>>(page: P) => Partial<TPages[P]>;
+	updateState: <K extends keyof TPages[TPage] & string>(
+		key: K,
+		value: TPages[TPage][K],
+	) => void;
+	updateStateBatch: (updates: Partial<TPages[TPage]>) => void;
+	updateStateAndGoToNext: (updates: Partial<TPages[TPage]>) => void;
+	stateKey: <K extends keyof TPages[TPage] & string>(
+		key: K,
+	) => readonly [
+		TPages[TPage][K] | undefined,
+		(value: TPages[TPage][K]) => void,
+	];
+	errors: FlowValidationErrors<keyof TPages[TPage] & string>;
+	visitedPages: FlowPageId<TPages>[];
+};
+
+/**
+ * A typed flow created by defineFlow()
+ */
+export type TypedFlow<TPages extends FlowPageStates> = {
+	/**
+	 * Graph to pass to `<Flow graph={...} />`
+	 */
+	graph: FlowGraph;
+
+	/**
+	 * Declared page ids in definition order
+	 */
+	pages: FlowPageId<TPages>[];
+
+	/**
+	 * Typed version of useFlow(). Pass the page the component renders to type
+	 * stateKey/updateState against that page's state shape.
+	 */
+	useFlow: <TPage extends FlowPageId<TPages> = FlowPageId<TPages>>(
+		page?: TPage,
+	) => TypedUseFlowReturn<TPages, TPage>;
+};
+
+/**
+ * Defines a flow whose page ids and per-page state shapes are declared once.
+ * Page references (`nextPage`, `previousPageFallback`, `goToPage`, ...) become a
+ * string-literal union, so a typo fails to compile, and resolvers receive typed state.
+ *
+ * Called in two steps so the state shapes can be given explicitly while the
+ * definition is still inferred.
+ *
+ * @example
+ * ```ts
+ * const onboarding = defineFlow<{
+ *   account: { email: string };
+ *   plan: { plan: "pro" | "basic" };
+ *   billing: { card: string };
+ *   done: Record<string, never>;
+ * }>()({
+ *   entryPoint: "account",
+ *   nodes: {
+ *     account: { nextPage: "plan" },
+ *     plan: { nextPage: (state) => (state.plan?.plan === "pro" ? "billing" : "done") },
+ *     billing: { nextPage: "done", previousPageFallback: "plan" },
+ *     done: {},
+ *   },
+ * });
+ *
+ * <Flow graph={onboarding.graph} config={{ componentLoaders }} />
+ *
+ * // In the "account" page component
+ * const { stateKey, goToPage } = onboarding.useFlow("account");
+ * const [email, setEmail] = stateKey("email"); // string | undefined
+ * goToPage("typo"); // compile error
+ * ```
+ */
+export function defineFlow<TPages extends FlowPageStates>() {
+	return (definition: TypedFlowDefinition<TPages>): TypedFlow<TPages> => {
+		const pages = Object.keys(definition.nodes) as FlowPageId<TPages>[];
+		const nodes = pages.map(
+			(page) =>
+				({
+					...definition.nodes[page],
+					currentPage: page,
+				}) as FlowNode<FlowStateByPage>,
+		);
+		const graph = initializeFlow(nodes, definition.entryPoint);
+
+		function useTypedFlow<TPage extends FlowPageId<TPages>>(
+			page?: TPage,
+		): TypedUseFlowReturn<TPages, TPage> {
+			const flow = useFlow();
+			const { currentPage } = flow;
+
+			// Warn once per page change, not on every render
+			useEffect(() => {
+				if (
+					page !== undefined &&
+					currentPage !== page &&
+					currentPage !== null &&
+					graph.nodes.has(currentPage)
+				) {
+					console.warn(
+						`useFlow("${page}") is used while the current page is "${currentPage}"`,
+					);
+				}
+			}, [page, currentPage]);
+
+			// Only the values typed by page id or page state are narrowed: the
+			// compiler still checks every other member against UseFlowReturn
+			return {
+				...flow,
+				currentPage: currentPage as TypedUseFlowReturn<
+					TPages,
+					TPage
+				>["currentPage"],
+				state: flow.state as TypedFlowStateByPage<TPages>,
+				getPageState: <P extends FlowPageId<TPages>>(pageId: P) =>
+					flow.getPageState(pageId) as Partial<TPages[P]>,
+				stateKey: <K extends keyof TPages[TPage] & string>(key: K) =>
+					flow.stateKey<TPages[TPage][K]>(key),
+				errors: flow.errors as FlowValidationErrors<
+					keyof TPages[TPage] & string
+				>,
+				visitedPages: flow.visitedPages as FlowPageId<TPages>[],
+			};
+		}
+
+		return { graph, pages, useFlow: useTypedFlow };
+	};
+}
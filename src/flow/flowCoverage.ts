@@ -0,0 +1,239 @@
+import { describeGraph } from "@/flow/graphExport";
+import { walkFlow } from "@/flow/graphHelpers";
+import { chain } from "@/flow/maybePromise";
+import type {
+	FlowGraph,
+	FlowSimulationResult,
+	FlowState,
+	FlowStateByPage,
+	MaybePromise,
+} from "@/flow/types";
+
+/**
+ * A forward edge between two pages
+ */
+export type FlowEdge = {
+	from: string;
+	to: string;
+};
+
+/**
+ * A distinct route through a flow, with a state that produces it
+ */
+export type FlowRoute = FlowSimulationResult & {
+	state: FlowStateByPage;
+};
+
+/**
+ * Options for enumerateFlowPaths
+ */
+export type EnumerateFlowPathsOptions = {
+	/**
+	 * Complete states to simulate (defaults to a single empty state)
+	 */
+	fixtures?: FlowStateByPage[];
+
+	/**
+	 * Candidate values per page. Whenever a route shows a page listed here,
+	 * it forks once per candidate, merging it into that page's state.
+	 * Applied on top of each fixture.
+	 */
+	pageValues?: Record<string, FlowState[]>;
+
+	/**
+	 * Page to start from (defaults to the graph's entry point)
+	 */
+	startPage?: string;
+};
+
+/**
+ * Routes found by enumerateFlowPaths and what they left unexercised
+ */
+export type FlowCoverageReport = {
+	/**
+	 * Distinct routes, in the order they were found
+	 */
+	routes: FlowRoute[];
+
+	/**
+	 * Pages shown by at least one route, in registration order
+	 */
+	coveredNodes: string[];
+
+	/**
+	 * Pages never shown (including pages that were only ever skipped)
+	 */
+	uncoveredNodes: string[];
+
+	/**
+	 * Forward edges taken by at least one route, including skipped pages on the way
+	 */
+	coveredEdges: FlowEdge[];
+
+	/**
+	 * Declared forward edges (string nextPage and branches) never taken
+	 */
+	uncoveredEdges: FlowEdge[];
+};
+
+/**
+ * A route found while exploring, with the forward edges it took
+ */
+type ExploredRoute = {
+	route: FlowRoute;
+	edges: FlowEdge[];
+};
+
+/**
+ * Runs one step after another, staying synchronous while the steps are
+ */
+function runInOrder<T>(
+	items: T[],
+	run: (item: T) => MaybePromise<void>,
+): MaybePromise<void> {
+	const next = (index: number): MaybePromise<void> =>
+		index < items.length
+			? chain(run(items[index]), () => next(index + 1))
+			: undefined;
+	return next(0);
+}
+
+/**
+ * Explores the routes for the fixtures and candidate values. Synchronous
+ * unless `awaitAsync` is set and a resolver returns a Promise.
+ */
+function exploreRoutes(
+	graph: FlowGraph,
+	options: EnumerateFlowPathsOptions,
+	awaitAsync: boolean,
+): MaybePromise<ExploredRoute[]> {
+	const { fixtures = [{}], pageValues = {} } = options;
+	const startPage = options.startPage ?? graph.entryPoint;
+	const routes = new Map<string, ExploredRoute>();
+
+	function explore(
+		state: FlowStateByPage,
+		chosen: Set<string>,
+	): MaybePromise<void> {
+		const edges: FlowEdge[] = [];
+		const walk = walkFlow(graph, state, {
+			startPage,
+			awaitAsync,
+			onStep: (from, to) => {
+				edges.push({ from, to });
+			},
+		});
+
+		return chain(walk, (result) => {
+			// Fork on the first shown page with candidates not applied yet
+			const page = result.pages.find(
+				(shown) => pageValues[shown]?.length && !chosen.has(shown),
+			);
+			if (page) {
+				const nextChosen = new Set(chosen).add(page);
+				return runInOrder(pageValues[page], (values) =>
+					explore(
+						{ ...state, [page]: { ...state[page], ...values } },
+						nextChosen,
+					),
+				);
+			}
+
+			const key = JSON.stringify([
+				result.pages,
+				result.skipped,
+				result.status,
+				result.stuckReason,
+			]);
+			if (!routes.has(key)) {
+				routes.set(key, { route: { ...result, state }, edges });
+			}
+		});
+	}
+
+	return chain(
+		runInOrder(fixtures, (fixture) => explore(fixture, new Set())),
+		() => [...routes.values()],
+	);
+}
+
+/**
+ * Builds the coverage report for the explored routes
+ */
+function getCoverageReport(
+	graph: FlowGraph,
+	explored: ExploredRoute[],
+): FlowCoverageReport {
+	const shown = new Set<string>();
+	const coveredEdges: FlowEdge[] = [];
+	const taken = new Set<string>();
+	for (const { route, edges } of explored) {
+		for (const page of route.pages) {
+			shown.add(page);
+		}
+		for (const edge of edges) {
+			const key = `${edge.from}\u0000${edge.to}`;
+			if (!taken.has(key)) {
+				taken.add(key);
+				coveredEdges.push(edge);
+			}
+		}
+	}
+
+	const pages = [...graph.nodes.keys()];
+	const declaredEdges = describeGraph(graph).edges.filter(
+		(edge) => edge.kind === "next" || edge.kind === "branch",
+	);
+
+	return {
+		routes: explored.map(({ route }) => route),
+		coveredNodes: pages.filter((page) => shown.has(page)),
+		uncoveredNodes: pages.filter((page) => !shown.has(page)),
+		coveredEdges,
+		uncoveredEdges: declaredEdges
+			.filter((edge) => !taken.has(`${edge.from}\u0000${edge.to}`))
+			.map(({ from, to }) => ({ from, to })),
+	};
+}
+
+/**
+ * Enumerates the distinct routes through a flow for a set of state fixtures
+ * and/or candidate values per page, and reports which pages and declared
+ * edges no route exercised. Each route is computed with simulateFlow, so
+ * routes through async resolvers end with "async-resolver"; use
+ * enumerateFlowPathsAsync for those flows.
+ *
+ * Candidate values fork a route when their page is shown, so only pages the
+ * route actually visits multiply the number of routes.
+ *
+ * @example
+ * ```ts
+ * const report = enumerateFlowPaths(graph, {
+ *   pageValues: {
+ *     plan: [{ type: "basic" }, { type: "pro" }],
+ *     billing: [{ prepaid: true }, { prepaid: false }],
+ *   },
+ * });
+ * expect(report.uncoveredEdges).toEqual([]);
+ * ```
+ */
+export function enumerateFlowPaths(
+	graph: FlowGraph,
+	options: EnumerateFlowPathsOptions = {},
+): FlowCoverageReport {
+	return getCoverageReport(
+		graph,
+		exploreRoutes(graph, options, false) as ExploredRoute[],
+	);
+}
+
+/**
+ * Like enumerateFlowPaths, but awaits async nextPage resolvers and shouldSkip
+ * predicates (each route is computed with simulateFlowAsync)
+ */
+export async function enumerateFlowPathsAsync(
+	graph: FlowGraph,
+	options: EnumerateFlowPathsOptions = {},
+): Promise<FlowCoverageReport> {
+	return getCoverageReport(graph, await exploreRoutes(graph, options, true));
+}
@@ -0,0 +1,113 @@
+import type { ExpiredReason, FlowMetadata } from "@/flow/types";
+
+/**
+ * Expiration options for a flow
+ */
+export type FlowExpirationConfig = {
+	/**
+	 * Absolute lifetime in ms, measured from when the flow was started
+	 */
+	maxAge?: number;
+
+	/**
+	 * Inactivity timeout in ms, measured from the last state update or navigation
+	 */
+	idleTimeout?: number;
+
+	/**
+	 * How long a completed or timed-out flow stays in storage, in ms from when
+	 * it ended (defaults to 7 days). Until then, revisiting it shows why it
+	 * expired; afterwards it is removed.
+	 */
+	retention?: number;
+};
+
+/**
+ * Default time completed and timed-out flows stay in storage
+ */
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Options used to decide whether stored flow metadata is still valid
+ */
+export type FlowExpiryOptions = {
+	/**
+	 * Max age / idle timeout (omit for no time-based expiry)
+	 */
+	expiration?: FlowExpirationConfig;
+
+	/**
+	 * Current flow definition version (omit to skip the version check)
+	 */
+	version?: string;
+};
+
+/**
+ * Gets when a flow expires from max age or inactivity (ms since epoch).
+ * Returns null when no expiration is configured or no metadata exists.
+ */
+export function getExpiresAt(
+	metadata: FlowMetadata | null,
+	expiration: FlowExpirationConfig | undefined,
+): number | null {
+	if (!metadata || !expiration) {
+		return null;
+	}
+
+	const deadlines: number[] = [];
+	if (expiration.maxAge !== undefined) {
+		deadlines.push(metadata.createdAt + expiration.maxAge);
+	}
+	if (expiration.idleTimeout !== undefined) {
+		deadlines.push(metadata.updatedAt + expiration.idleTimeout);
+	}
+
+	return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+/**
+ * Whether a stored flow can be removed: it was completed, or timed out, longer
+ * than the retention period ago. Flows without metadata are kept.
+ */
+export function isStaleFlow(
+	metadata: FlowMetadata | null,
+	expiration: FlowExpirationConfig | undefined,
+	now: number = Date.now(),
+): boolean {
+	if (!metadata) {
+		return false;
+	}
+
+	const endedAt = metadata.completedAt ?? getExpiresAt(metadata, expiration);
+	const retention = expiration?.retention ?? DEFAULT_RETENTION_MS;
+	return endedAt !== null && endedAt + retention <= now;
+}
+
+/**
+ * Gets why stored flow metadata is no longer valid, or null if it still is.
+ * Flows without metadata (started before metadata existed) are treated as valid.
+ */
+export function getExpiredReason(
+	metadata: FlowMetadata | null,
+	options: FlowExpiryOptions,
+	now: number = Date.now(),
+): ExpiredReason | null {
+	if (!metadata) {
+		return null;
+	}
+
+	if (metadata.completedAt !== undefined) {
+		return "completed";
+	}
+
+	if (options.version !== undefined && metadata.version !== options.version) {
+		return "version-mismatch";
+	}
+
+	const expiresAt = getExpiresAt(metadata, options.expiration);
+	if (expiresAt !== null && expiresAt <= now) {
+		return "timeout";
+	}
+
+	return null;
+}
@@ -0,0 +1,94 @@
+import type { NavigationDirection } from "@/flow/types";
+
+/**
+ * Pages visited in a flow and how the last navigation moved through them
+ */
+export type FlowHistory = {
+	/**
+	 * Pages visited, oldest first; the last one is the current page
+	 */
+	visitedPages: string[];
+
+	/**
+	 * Direction of the last navigation (null on initial load)
+	 */
+	navigationDirection: NavigationDirection | null;
+};
+
+/**
+ * History of a flow that hasn't shown a page yet
+ */
+export const EMPTY_FLOW_HISTORY: FlowHistory = {
+	visitedPages: [],
+	navigationDirection: null,
+};
+
+/**
+ * Adds a page on top of the history
+ */
+export function pushVisit(
+	history: FlowHistory,
+	page: string,
+	direction: NavigationDirection,
+): FlowHistory {
+	return {
+		visitedPages: [...history.visitedPages, page],
+		navigationDirection: direction,
+	};
+}
+
+/**
+ * Replaces the current page (skips and skipToPage don't add a history entry)
+ */
+export function replaceVisit(
+	history: FlowHistory,
+	page: string,
+	direction: NavigationDirection,
+): FlowHistory {
+	return {
+		visitedPages: [...history.visitedPages.slice(0, -1), page],
+		navigationDirection: direction,
+	};
+}
+
+/**
+ * Goes back to the visited page at `index`, dropping the pages after it
+ */
+export function backVisit(history: FlowHistory, index: number): FlowHistory {
+	return {
+		visitedPages: history.visitedPages.slice(0, index + 1),
+		navigationDirection: "back",
+	};
+}
+
+/**
+ * Records a page reached through the URL (browser back/forward, links).
+ * A page already in the history is treated as going back to it; any other
+ * page is added as a jump.
+ */
+export function syncVisit(history: FlowHistory, page: string): FlowHistory {
+	const { visitedPages } = history;
+	if (visitedPages[visitedPages.length - 1] === page) {
+		return history;
+	}
+	const index = visitedPages.lastIndexOf(page);
+	return index >= 0
+		? backVisit(history, index)
+		: pushVisit(history, page, "jump");
+}
+
+/**
+ * Restores persisted visited pages on load, ending at the page shown
+ */
+export function restoreHistory(
+	visitedPages: string[] | undefined,
+	page: string,
+): FlowHistory {
+	return {
+		...syncVisit(
+			{ visitedPages: visitedPages ?? [], navigationDirection: null },
+			page,
+		),
+		navigationDirection: null,
+	};
+}
@@ -1,11 +1,22 @@
 import { getPagesInOrder } from "@/flow/graphHelpers";
-import type { FlowGraph, FlowState, FlowStateByPage } from "@/flow/types";
+import type {
+	FlowGraph,
+	FlowMetadata,
+	FlowState,
+	FlowStateByPage,
+	FlowStateStorage,
+} from "@/flow/types";
 
 /**
  * Session storage key prefix for flow state
  */
 const STORAGE_PREFIX = "flow:";
 
+/**
+ * Reserved page entry holding lifecycle metadata next to the page entries
+ */
+export const METADATA_PAGE = "__meta__";
+
 /**
  * Structure for storing page state in session storage
  */
@@ -14,15 +25,41 @@ type PageStateEntry = {
 	state: FlowState;
 };
 
+/**
+ * Returns window.sessionStorage when available (null during SSR)
+ */
+function getSessionStorage(): Storage | null {
+	if (typeof window === "undefined" || !window.sessionStorage) {
+		return null;
+	}
+	return window.sessionStorage;
+}
+
+/**
+ * Returns window.localStorage when available (null during SSR)
+ */
+function getLocalStorage(): Storage | null {
+	if (typeof window === "undefined" || !window.localStorage) {
+		return null;
+	}
+	return window.localStorage;
+}
+
 /**
  * Manager for wizard state stored in session storage
  * Uses UUID-based storage with array structure: wizard:{uuid}: [{ page, state }, ...]
+ * Pass a different storage getter to back it with any Web Storage implementation.
  */
-export class WizardStateManager {
+export class WizardStateManager implements FlowStateStorage {
 	private prefix: string;
+	private getStorage: () => Storage | null;
 
-	constructor(prefix: string = STORAGE_PREFIX) {
+	constructor(
+		prefix: string = STORAGE_PREFIX,
+		getStorage: () => Storage | null = getSessionStorage,
+	) {
 		this.prefix = prefix;
+		this.getStorage = getStorage;
 	}
 
 	/**
@@ -36,12 +73,13 @@ export class WizardStateManager {
 	 * Gets all page state entries for a wizard UUID
 	 */
 	private getPageStateEntries(uuid: string): PageStateEntry[] {
-		if (typeof window === "undefined" || !window.sessionStorage) {
+		const storage = this.getStorage();
+		if (!storage) {
 			return [];
 		}
 
 		const storageKey = this.getStorageKey(uuid);
-		const stored = window.sessionStorage.getItem(storageKey);
+		const stored = storage.getItem(storageKey);
 
 		if (!stored) {
 			return [];
@@ -59,13 +97,14 @@ export class WizardStateManager {
 	 * Saves all page state entries for a wizard UUID
 	 */
 	private setPageStateEntries(uuid: string, entries: PageStateEntry[]): void {
-		if (typeof window === "undefined" || !window.sessionStorage) {
+		const storage = this.getStorage();
+		if (!storage) {
 			return;
 		}
 
 		const storageKey = this.getStorageKey(uuid);
 		try {
-			window.sessionStorage.setItem(storageKey, JSON.stringify(entries));
+			storage.setItem(storageKey, JSON.stringify(entries));
 		} catch (error) {
 			console.error(`Failed to save state for UUID "${uuid}":`, error);
 		}
@@ -76,7 +115,7 @@ export class WizardStateManager {
 	 * This allows us to see all expected state upfront
 	 */
 	preRegisterState(graph: FlowGraph, uuid: string): void {
-		if (typeof window === "undefined" || !window.sessionStorage) {
+		if (!this.getStorage()) {
 			return;
 		}
 
@@ -149,6 +188,7 @@ export class WizardStateManager {
 		const entries = this.getPageStateEntries(uuid);
 
 		for (const entry of entries) {
+			if (entry.page === METADATA_PAGE) continue;
 			byPage[entry.page] = { ...entry.state };
 		}
 
@@ -174,16 +214,38 @@ export class WizardStateManager {
 		return byPage;
 	}
 
+	/**
+	 * Gets lifecycle metadata for a wizard UUID
+	 */
+	getMetadata(uuid: string): FlowMetadata | null {
+		const entry = this.getPageStateEntries(uuid).find(
+			(e) => e.page === METADATA_PAGE,
+		);
+		return entry ? (entry.state as FlowMetadata) : null;
+	}
+
+	/**
+	 * Sets lifecycle metadata for a wizard UUID
+	 */
+	setMetadata(uuid: string, metadata: FlowMetadata): void {
+		const entries = this.getPageStateEntries(uuid).filter(
+			(e) => e.page !== METADATA_PAGE,
+		);
+		entries.push({ page: METADATA_PAGE, state: { ...metadata } });
+		this.setPageStateEntries(uuid, entries);
+	}
+
 	/**
 	 * Checks if state exists for a specific UUID
 	 */
 	hasState(uuid: string): boolean {
-		if (typeof window === "undefined" || !window.sessionStorage) {
+		const storage = this.getStorage();
+		if (!storage) {
 			return false;
 		}
 
 		const storageKey = this.getStorageKey(uuid);
-		const stored = window.sessionStorage.getItem(storageKey);
+		const stored = storage.getItem(storageKey);
 		return stored !== null && stored !== "";
 	}
 
@@ -191,12 +253,42 @@ export class WizardStateManager {
 	 * Clears all wizard state for a specific UUID
 	 */
 	clearState(uuid: string): void {
-		if (typeof window === "undefined" || !window.sessionStorage) {
+		const storage = this.getStorage();
+		if (!storage) {
 			return;
 		}
 
 		const storageKey = this.getStorageKey(uuid);
-		window.sessionStorage.removeItem(storageKey);
+		storage.removeItem(storageKey);
+	}
+
+	/**
+	 * Removes every stored wizard for which isStale returns true
+	 */
+	sweep(
+		isStale: (uuid: string, metadata: FlowMetadata | null) => boolean,
+	): void {
+		const storage = this.getStorage();
+		if (!storage) {
+			return;
+		}
+
+		// Collect first: removing keys shifts the storage indexes
+		const uuids: string[] = [];
+		for (let i = 0; i < storage.length; i++) {
+			const key = storage.key(i);
+			if (key?.startsWith(this.prefix)) {
+				uuids.push(key.slice(this.prefix.length));
+			}
+		}
+
+		for (const uuid of uuids) {
+			const entries = this.getPageStateEntries(uuid);
+			if (!Array.isArray(entries)) continue;
+			if (isStale(uuid, this.getMetadata(uuid))) {
+				this.clearState(uuid);
+			}
+		}
 	}
 
 	/**
@@ -209,6 +301,112 @@ export class WizardStateManager {
 	}
 }
 
+/**
+ * Manager for flow state stored in local storage.
+ * State survives closing the tab, so users can come back to a draft later.
+ */
+export class LocalStorageStateManager extends WizardStateManager {
+	constructor(prefix: string = STORAGE_PREFIX) {
+		super(prefix, getLocalStorage);
+	}
+}
+
+/**
+ * Manager for flow state kept in memory only.
+ * State is lost on refresh; useful for tests, SSR and embedded flows.
+ */
+export class MemoryStateManager implements FlowStateStorage {
+	private store = new Map<string, PageStateEntry[]>();
+
+	/**
+	 * Gets the page entry for a page, creating it if needed
+	 */
+	private getOrCreateEntry(uuid: string, page: string): PageStateEntry {
+		let entries = this.store.get(uuid);
+		if (!entries) {
+			entries = [];
+			this.store.set(uuid, entries);
+		}
+
+		let entry = entries.find((e) => e.page === page);
+		if (!entry) {
+			entry = { page, state: {} };
+			entries.push(entry);
+		}
+		return entry;
+	}
+
+	preRegisterState(graph: FlowGraph, uuid: string): void {
+		for (const page of getPagesInOrder(graph)) {
+			this.getOrCreateEntry(uuid, page);
+		}
+	}
+
+	getState(uuid: string, page: string): FlowState {
+		const entry = this.store.get(uuid)?.find((e) => e.page === page);
+		return entry ? { ...entry.state } : {};
+	}
+
+	setState(uuid: string, page: string, key: string, value: unknown): void {
+		this.getOrCreateEntry(uuid, page).state[key] = value;
+	}
+
+	setStateBatch(
+		uuid: string,
+		page: string,
+		updates: Record<string, unknown>,
+	): void {
+		Object.assign(this.getOrCreateEntry(uuid, page).state, updates);
+	}
+
+	getAllState(_graph: FlowGraph, uuid: string): FlowStateByPage {
+		const byPage: FlowStateByPage = {};
+		for (const entry of this.store.get(uuid) ?? []) {
+			if (entry.page === METADATA_PAGE) continue;
+			byPage[entry.page] = { ...entry.state };
+		}
+		return byPage;
+	}
+
+	getMetadata(uuid: string): FlowMetadata | null {
+		const entry = this.store.get(uuid)?.find((e) => e.page === METADATA_PAGE);
+		return entry ? ({ ...entry.state } as FlowMetadata) : null;
+	}
+
+	setMetadata(uuid: string, metadata: FlowMetadata): void {
+		this.getOrCreateEntry(uuid, METADATA_PAGE).state = { ...metadata };
+	}
+
+	hasState(uuid: string): boolean {
+		return this.store.has(uuid);
+	}
+
+	clearState(uuid: string): void {
+		this.store.delete(uuid);
+	}
+
+	sweep(
+		isStale: (uuid: string, metadata: FlowMetadata | null) => boolean,
+	): void {
+		for (const uuid of [...this.store.keys()]) {
+			if (isStale(uuid, this.getMetadata(uuid))) {
+				this.store.delete(uuid);
+			}
+		}
+	}
+
+	clearPageState(uuid: string, page: string): void {
+		const entries = this.store.get(uuid);
+		if (!entries) {
+			return;
+		}
+		this.store.set(
+			uuid,
+			entries.filter((e) => e.page !== page),
+		);
+	}
+}
+
 /**
  * Default instance of WizardStateManager
  */
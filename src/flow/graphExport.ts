@@ -0,0 +1,281 @@
+import type { FlowGraph } from "@/flow/types";
+
+/**
+ * A page in an exported flow graph
+ */
+export type FlowGraphNodeDescription = {
+	id: string;
+
+	/**
+	 * How the next page is determined:
+	 * "static" (string), "function" (resolver) or "none" (last page)
+	 */
+	nextPage: "static" | "function" | "none";
+
+	/**
+	 * Whether the page has a skip condition
+	 */
+	conditional: boolean;
+
+	/**
+	 * Whether the page is marked as an intended end of the flow
+	 */
+	terminal: boolean;
+
+	/**
+	 * Whether the page is on the highlighted path
+	 */
+	highlighted: boolean;
+};
+
+/**
+ * An edge in an exported flow graph
+ * - "next": string `nextPage`
+ * - "branch": declared branch target of a function `nextPage`
+ * - "fallback": `previousPageFallback`
+ * - "path": step of the highlighted path that no other edge covers
+ */
+export type FlowGraphEdgeDescription = {
+	from: string;
+	to: string;
+	kind: "next" | "branch" | "fallback" | "path";
+	highlighted: boolean;
+};
+
+/**
+ * Serializable description of a flow graph.
+ * Nodes are in registration order and edges in node order, so the output is
+ * stable for snapshots and diffs.
+ */
+export type FlowGraphDescription = {
+	entryPoint: string | null;
+	nodes: FlowGraphNodeDescription[];
+	edges: FlowGraphEdgeDescription[];
+};
+
+/**
+ * Options for the graph exporters
+ */
+export type GraphExportOptions = {
+	/**
+	 * Pages visited in order (e.g. from a bug report). Their pages and the
+	 * edges between consecutive pages are highlighted.
+	 */
+	highlightPath?: string[];
+};
+
+/**
+ * Describes a flow graph as plain data: pages, entry point, skip conditions,
+ * next/branch/fallback edges and an optional highlighted path.
+ * Edges to pages that don't exist are left out (validateGraph reports them).
+ */
+export function describeGraph(
+	graph: FlowGraph,
+	options: GraphExportOptions = {},
+): FlowGraphDescription {
+	const path = (options.highlightPath ?? []).filter((page) =>
+		graph.nodes.has(page),
+	);
+	const steps = new Set<string>();
+	for (let i = 0; i < path.length - 1; i++) {
+		steps.add(`${path[i]}\u0000${path[i + 1]}`);
+	}
+
+	const nodes: FlowGraphNodeDescription[] = [];
+	const edges: FlowGraphEdgeDescription[] = [];
+	const covered = new Set<string>();
+
+	const addEdge = (
+		from: string,
+		to: string,
+		kind: FlowGraphEdgeDescription["kind"],
+	) => {
+		if (!graph.nodes.has(to)) {
+			return;
+		}
+		const step = `${from}\u0000${to}`;
+		const highlighted = steps.has(step);
+		if (highlighted) {
+			covered.add(step);
+		}
+		edges.push({ from, to, kind, highlighted });
+	};
+
+	for (const [page, node] of graph.nodes.entries()) {
+		nodes.push({
+			id: page,
+			nextPage:
+				typeof node.nextPage === "function"
+					? "function"
+					: node.nextPage
+						? "static"
+						: "none",
+			conditional: !!node.shouldSkip,
+			terminal: !!node.terminal,
+			highlighted: path.includes(page),
+		});
+
+		if (typeof node.nextPage === "function") {
+			for (const branch of node.branches ?? []) {
+				addEdge(page, branch, "branch");
+			}
+		} else if (node.nextPage) {
+			addEdge(page, node.nextPage, "next");
+		}
+
+		if (node.previousPageFallback) {
+			addEdge(page, node.previousPageFallback, "fallback");
+		}
+	}
+
+	// Steps taken through undeclared resolver targets or goToPage jumps
+	for (let i = 0; i < path.length - 1; i++) {
+		const step = `${path[i]}\u0000${path[i + 1]}`;
+		if (!covered.has(step)) {
+			covered.add(step);
+			edges.push({
+				from: path[i],
+				to: path[i + 1],
+				kind: "path",
+				highlighted: true,
+			});
+		}
+	}
+
+	return {
+		entryPoint: graph.entryPoint ?? null,
+		nodes,
+		edges,
+	};
+}
+
+/**
+ * Exports a flow graph as a JSON string (see describeGraph)
+ */
+export function graphToJSON(
+	graph: FlowGraph,
+	options: GraphExportOptions = {},
+): string {
+	return JSON.stringify(describeGraph(graph, options), null, 2);
+}
+
+/**
+ * Exports a flow graph as Mermaid flowchart text.
+ * Conditional (skippable) pages are hexagons, terminal pages are stadiums,
+ * fallback edges are dotted and the highlighted path is drawn in red.
+ *
+ * @example
+ * ```ts
+ * const mermaid = graphToMermaid(graph, { highlightPath: ["account", "plan"] });
+ * ```
+ */
+export function graphToMermaid(
+	graph: FlowGraph,
+	options: GraphExportOptions = {},
+): string {
+	const { entryPoint, nodes, edges } = describeGraph(graph, options);
+
+	// Page ids may contain characters Mermaid doesn't allow in ids
+	const ids = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+	const label = (text: string) => `"${text.replace(/"/g, "#quot;")}"`;
+
+	const lines = ["flowchart TD"];
+	for (const node of nodes) {
+		const text = label(node.conditional ? `${node.id} (conditional)` : node.id);
+		const shape = node.conditional
+			? `{{${text}}}`
+			: node.terminal
+				? `([${text}])`
+				: `[${text}]`;
+		lines.push(`\t${ids.get(node.id)}${shape}`);
+	}
+
+	// linkStyle addresses links by their position in the chart
+	let linkCount = 0;
+	const highlightedLinks: number[] = [];
+	if (entryPoint && ids.has(entryPoint)) {
+		lines.push(`\tstart((start)) --> ${ids.get(entryPoint)}`);
+		linkCount++;
+	}
+
+	for (const edge of edges) {
+		const arrow =
+			edge.kind === "fallback"
+				? "-.->|fallback|"
+				: edge.kind === "branch"
+					? "-->|branch|"
+					: edge.kind === "path"
+						? "-.->"
+						: "-->";
+		lines.push(`\t${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+		if (edge.highlighted) {
+			highlightedLinks.push(linkCount);
+		}
+		linkCount++;
+	}
+
+	const highlightedNodes = nodes.filter((node) => node.highlighted);
+	if (highlightedNodes.length > 0) {
+		lines.push("\tclassDef highlighted stroke:#e11d48,stroke-width:3px");
+		lines.push(
+			`\tclass ${highlightedNodes.map((node) => ids.get(node.id)).join(",")} highlighted`,
+		);
+	}
+	if (highlightedLinks.length > 0) {
+		lines.push(
+			`\tlinkStyle ${highlightedLinks.join(",")} stroke:#e11d48,stroke-width:3px`,
+		);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Exports a flow graph as Graphviz DOT.
+ * Conditional (skippable) pages are dashed, terminal pages have a double
+ * border, fallback edges are dashed and the highlighted path is drawn in red.
+ */
+export function graphToDot(
+	graph: FlowGraph,
+	options: GraphExportOptions = {},
+): string {
+	const { entryPoint, nodes, edges } = describeGraph(graph, options);
+	const quote = (text: string) =>
+		`"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+	const attributes = (attrs: string[]) =>
+		attrs.length > 0 ? ` [${attrs.join(", ")}]` : "";
+
+	const lines = ["digraph flow {", "\trankdir=TB;"];
+
+	if (entryPoint && nodes.some((node) => node.id === entryPoint)) {
+		lines.push('\t"__start__" [shape=point];');
+		lines.push(`\t"__start__" -> ${quote(entryPoint)};`);
+	}
+
+	for (const node of nodes) {
+		const attrs = [
+			`label=${quote(node.conditional ? `${node.id} (conditional)` : node.id)}`,
+		];
+		if (node.conditional) attrs.push("style=dashed");
+		if (node.terminal) attrs.push("peripheries=2");
+		if (node.highlighted) attrs.push("color=red", "penwidth=2");
+		lines.push(`\t${quote(node.id)}${attributes(attrs)};`);
+	}
+
+	for (const edge of edges) {
+		const attrs: string[] = [];
+		if (edge.kind === "branch" || edge.kind === "fallback") {
+			attrs.push(`label=${quote(edge.kind)}`);
+		}
+		if (edge.kind === "fallback" || edge.kind === "path") {
+			attrs.push("style=dashed");
+		}
+		if (edge.highlighted) attrs.push("color=red", "penwidth=2");
+		lines.push(
+			`\t${quote(edge.from)} -> ${quote(edge.to)}${attributes(attrs)};`,
+		);
+	}
+
+	lines.push("}");
+	return lines.join("\n");
+}
@@ -1,4 +1,13 @@
-import type { FlowGraph, FlowNode, FlowStateByPage } from "@/flow/types";
+import { chain, isPromiseLike, settleSync } from "@/flow/maybePromise";
+import type {
+	FlowGraph,
+	FlowNode,
+	FlowSimulationResult,
+	FlowStateByPage,
+	GraphDiagnostic,
+	GraphValidationResult,
+	MaybePromise,
+} from "@/flow/types";
 
 /**
  * Creates a new empty flow graph
@@ -60,13 +69,14 @@ export function getNode(graph: FlowGraph, page: string): FlowNode | undefined {
 }
 
 /**
- * Checks if a step should be skipped based on its shouldSkip function and current state
+ * Checks if a step should be skipped, supporting async shouldSkip predicates.
+ * Returns synchronously when the predicate does.
  */
-export function shouldSkipStep(
+export function shouldSkipStepAsync(
 	graph: FlowGraph,
 	page: string,
 	state: FlowStateByPage,
-): boolean {
+): MaybePromise<boolean> {
 	const node = getNode(graph, page);
 	if (!node) {
 		return false;
@@ -80,19 +90,53 @@ export function shouldSkipStep(
 }
 
 /**
- * Resolves the next page for a given node based on current state
+ * Checks if a step should be skipped based on its shouldSkip function and current state.
+ * An async predicate that hasn't settled counts as not skipped; use shouldSkipStepAsync.
  */
-export function resolveNextPage(
+export function shouldSkipStep(
+	graph: FlowGraph,
+	page: string,
+	state: FlowStateByPage,
+): boolean {
+	return settleSync(shouldSkipStepAsync(graph, page, state), false);
+}
+
+/**
+ * Whether development-only checks should run
+ */
+function isDevelopment(): boolean {
+	return (
+		typeof process === "undefined" || process.env?.NODE_ENV !== "production"
+	);
+}
+
+/**
+ * Resolves the next page for a given node, supporting async resolvers.
+ * Returns synchronously when the resolver does.
+ */
+export function resolveNextPageAsync(
 	node: FlowNode,
 	state: FlowStateByPage,
-): string | null {
+): MaybePromise<string | null> {
 	if (!node.nextPage) {
 		return null;
 	}
 
 	// If it's a function, evaluate it with current state
 	if (typeof node.nextPage === "function") {
-		return node.nextPage(state);
+		return chain(node.nextPage(state), (nextPage) => {
+			if (
+				nextPage !== null &&
+				node.branches &&
+				!node.branches.includes(nextPage) &&
+				isDevelopment()
+			) {
+				console.warn(
+					`nextPage of "${node.currentPage}" returned "${nextPage}", which is not in its declared branches: ${node.branches.join(", ")}`,
+				);
+			}
+			return nextPage;
+		});
 	}
 
 	// Otherwise, return the string directly
@@ -100,14 +144,26 @@ export function resolveNextPage(
 }
 
 /**
- * Recursively finds the next non-skipped page, preventing infinite loops
+ * Resolves the next page for a given node based on current state.
+ * An async resolver that hasn't settled resolves to null; use resolveNextPageAsync.
  */
-export function getNextNonSkippedPage(
+export function resolveNextPage(
+	node: FlowNode,
+	state: FlowStateByPage,
+): string | null {
+	return settleSync(resolveNextPageAsync(node, state), null);
+}
+
+/**
+ * Recursively finds the next non-skipped page, supporting async resolvers
+ * and skip predicates. Returns synchronously when they all do.
+ */
+export function getNextNonSkippedPageAsync(
 	graph: FlowGraph,
 	page: string,
 	state: FlowStateByPage,
 	visited: Set<string> = new Set(),
-): string | null {
+): MaybePromise<string | null> {
 	// Prevent infinite loops
 	if (visited.has(page)) {
 		console.warn(`Circular skip condition detected for page "${page}"`);
@@ -116,53 +172,83 @@ export function getNextNonSkippedPage(
 	visited.add(page);
 
 	// Check if current page should be skipped
-	if (shouldSkipStep(graph, page, state)) {
+	return chain(shouldSkipStepAsync(graph, page, state), (skip) => {
+		if (!skip) {
+			// Page should not be skipped, return it
+			return page;
+		}
+
 		const node = getNode(graph, page);
 		if (!node) {
 			return null;
 		}
 
-		const nextPage = resolveNextPage(node, state);
-		if (!nextPage || !graph.nodes.has(nextPage)) {
-			return null;
-		}
+		return chain(resolveNextPageAsync(node, state), (nextPage) => {
+			if (!nextPage || !graph.nodes.has(nextPage)) {
+				return null;
+			}
 
-		// Recursively check the next page
-		return getNextNonSkippedPage(graph, nextPage, state, visited);
-	}
+			// Recursively check the next page
+			return getNextNonSkippedPageAsync(graph, nextPage, state, visited);
+		});
+	});
+}
 
-	// Page should not be skipped, return it
-	return page;
+/**
+ * Recursively finds the next non-skipped page, preventing infinite loops
+ */
+export function getNextNonSkippedPage(
+	graph: FlowGraph,
+	page: string,
+	state: FlowStateByPage,
+	visited: Set<string> = new Set(),
+): string | null {
+	return settleSync(
+		getNextNonSkippedPageAsync(graph, page, state, visited),
+		null,
+	);
 }
 
 /**
- * Gets the next page for navigation (returns first page if multiple)
- * Automatically skips steps that should be skipped
+ * Gets the next page for navigation, supporting async resolvers and skip
+ * predicates. Returns synchronously when they all do.
  */
-export function getNextPage(
+export function getNextPageAsync(
 	graph: FlowGraph,
 	currentPage: string,
 	state: FlowStateByPage,
-): string | null {
+): MaybePromise<string | null> {
 	const currentNode = getNode(graph, currentPage);
 	if (!currentNode) {
 		return null;
 	}
 
-	const nextPage = resolveNextPage(currentNode, state);
+	return chain(resolveNextPageAsync(currentNode, state), (nextPage) => {
+		if (!nextPage) {
+			return null;
+		}
 
-	if (!nextPage) {
-		return null;
-	}
+		// Validate that the next page exists in the graph
+		if (!graph.nodes.has(nextPage)) {
+			console.warn(`Next page "${nextPage}" does not exist in graph`);
+			return null;
+		}
 
-	// Validate that the next page exists in the graph
-	if (!graph.nodes.has(nextPage)) {
-		console.warn(`Next page "${nextPage}" does not exist in graph`);
-		return null;
-	}
+		// Check if the next page should be skipped and find the first non-skipped page
+		return getNextNonSkippedPageAsync(graph, nextPage, state);
+	});
+}
 
-	// Check if the next page should be skipped and find the first non-skipped page
-	return getNextNonSkippedPage(graph, nextPage, state);
+/**
+ * Gets the next page for navigation (returns first page if multiple)
+ * Automatically skips steps that should be skipped
+ */
+export function getNextPage(
+	graph: FlowGraph,
+	currentPage: string,
+	state: FlowStateByPage,
+): string | null {
+	return settleSync(getNextPageAsync(graph, currentPage, state), null);
 }
 
 /**
@@ -179,14 +265,15 @@ export function getAllNextPages(
 }
 
 /**
- * Recursively finds the previous non-skipped page, preventing infinite loops
+ * Recursively finds the previous non-skipped page, supporting async skip
+ * predicates. Returns synchronously when they all do.
  */
-export function getPreviousNonSkippedPage(
+export function getPreviousNonSkippedPageAsync(
 	graph: FlowGraph,
 	page: string,
 	state: FlowStateByPage,
 	visited: Set<string> = new Set(),
-): string | null {
+): MaybePromise<string | null> {
 	// Prevent infinite loops
 	if (visited.has(page)) {
 		console.warn(`Circular skip condition detected for page "${page}"`);
@@ -199,42 +286,51 @@ export function getPreviousNonSkippedPage(
 		return null;
 	}
 
-	if (!node.previousPageFallback) {
+	const previousPage = node.previousPageFallback;
+	if (!previousPage) {
 		return null;
 	}
 
 	// Validate that the previous page exists
-	if (!graph.nodes.has(node.previousPageFallback)) {
-		console.warn(
-			`Previous page "${node.previousPageFallback}" does not exist in graph`,
-		);
+	if (!graph.nodes.has(previousPage)) {
+		console.warn(`Previous page "${previousPage}" does not exist in graph`);
 		return null;
 	}
 
 	// Check if previous page should be skipped
-	if (shouldSkipStep(graph, node.previousPageFallback, state)) {
-		// Recursively check the previous page
-		return getPreviousNonSkippedPage(
-			graph,
-			node.previousPageFallback,
-			state,
-			visited,
-		);
-	}
+	return chain(shouldSkipStepAsync(graph, previousPage, state), (skip) =>
+		skip
+			? // Recursively check the previous page
+				getPreviousNonSkippedPageAsync(graph, previousPage, state, visited)
+			: // Previous page should not be skipped, return it
+				previousPage,
+	);
+}
 
-	// Previous page should not be skipped, return it
-	return node.previousPageFallback;
+/**
+ * Recursively finds the previous non-skipped page, preventing infinite loops
+ */
+export function getPreviousNonSkippedPage(
+	graph: FlowGraph,
+	page: string,
+	state: FlowStateByPage,
+	visited: Set<string> = new Set(),
+): string | null {
+	return settleSync(
+		getPreviousNonSkippedPageAsync(graph, page, state, visited),
+		null,
+	);
 }
 
 /**
- * Gets the previous page for a given node
- * Automatically skips over steps that should be skipped
+ * Gets the previous page for a given node, supporting async skip predicates.
+ * Returns synchronously when they all do.
  */
-export function getPreviousPage(
+export function getPreviousPageAsync(
 	graph: FlowGraph,
 	currentPage: string,
 	state: FlowStateByPage,
-): string | null {
+): MaybePromise<string | null> {
 	const currentNode = getNode(graph, currentPage);
 	if (!currentNode) {
 		return null;
@@ -253,23 +349,282 @@ export function getPreviousPage(
 	}
 
 	// Check if previous page should be skipped and find the first non-skipped page
-	return getPreviousNonSkippedPage(graph, currentPage, state);
+	return getPreviousNonSkippedPageAsync(graph, currentPage, state);
+}
+
+/**
+ * Gets the previous page for a given node
+ * Automatically skips over steps that should be skipped
+ */
+export function getPreviousPage(
+	graph: FlowGraph,
+	currentPage: string,
+	state: FlowStateByPage,
+): string | null {
+	return settleSync(getPreviousPageAsync(graph, currentPage, state), null);
+}
+
+/**
+ * Options for simulateFlow
+ */
+export type SimulateFlowOptions = {
+	/**
+	 * Page to start from (defaults to the graph's entry point)
+	 */
+	startPage?: string;
+};
+
+/**
+ * How walkFlow resolves the flow
+ */
+export type WalkFlowOptions = SimulateFlowOptions & {
+	/**
+	 * Await async resolvers and skip predicates. Without it, a pending one
+	 * stops the walk with "async-resolver".
+	 */
+	awaitAsync?: boolean;
+
+	/**
+	 * Called for every forward step taken to an existing page
+	 */
+	onStep?: (from: string, to: string) => void;
+};
+
+/**
+ * Walks forward through a flow the way goToNext does. Shared by simulateFlow,
+ * simulateFlowAsync and the coverage helpers. Returns synchronously unless
+ * `awaitAsync` is set and a resolver or predicate returns a Promise.
+ */
+export function walkFlow(
+	graph: FlowGraph,
+	state: FlowStateByPage,
+	options: WalkFlowOptions = {},
+): MaybePromise<FlowSimulationResult> {
+	const pages: string[] = [];
+	const skipped: FlowSimulationResult["skipped"] = [];
+	const seen = new Set<string>();
+
+	const stuck = (
+		stuckReason: FlowSimulationResult["stuckReason"],
+		endPage: string | null,
+		missingPage?: string,
+	): FlowSimulationResult => ({
+		pages,
+		skipped,
+		status: "stuck",
+		endPage,
+		stuckReason,
+		...(missingPage !== undefined ? { missingPage } : {}),
+	});
+
+	const completed = (): FlowSimulationResult => ({
+		pages,
+		skipped,
+		status: "completed",
+		endPage: pages[pages.length - 1] ?? null,
+	});
+
+	// Continues with a resolved value, or stops when it is pending and not awaited
+	const settle = <T>(
+		value: MaybePromise<T>,
+		page: string,
+		next: (value: T) => MaybePromise<FlowSimulationResult>,
+	): MaybePromise<FlowSimulationResult> => {
+		if (isPromiseLike(value) && !options.awaitAsync) {
+			value.then(undefined, () => {});
+			return stuck("async-resolver", page);
+		}
+		return chain(value, next);
+	};
+
+	const visit = (
+		target: string | null,
+		from: string | null,
+	): MaybePromise<FlowSimulationResult> => {
+		if (target === null) {
+			return stuck("missing-node", null);
+		}
+		const node = getNode(graph, target);
+		if (!node) {
+			return stuck("missing-node", from, target);
+		}
+		if (from !== null) {
+			options.onStep?.(from, target);
+		}
+		if (seen.has(target)) {
+			return stuck("cycle", target);
+		}
+		seen.add(target);
+
+		return settle(shouldSkipStepAsync(graph, target, state), target, (skip) => {
+			if (skip) {
+				skipped.push({ page: target, reason: "shouldSkip" });
+			} else {
+				pages.push(target);
+			}
+
+			if (!node.nextPage) {
+				return completed();
+			}
+
+			return settle(resolveNextPageAsync(node, state), target, (nextPage) => {
+				if (nextPage === null) {
+					return node.terminal ? completed() : stuck("null-resolver", target);
+				}
+				return visit(nextPage, target);
+			});
+		});
+	};
+
+	return visit(options.startPage ?? graph.entryPoint ?? null, null);
+}
+
+/**
+ * Computes the pages a user with the given state would see, without rendering.
+ * Walks forward like goToNext does (resolveNextPage, then skipping pages whose
+ * shouldSkip returns true) until the end of the flow or until navigation gets stuck.
+ * Stops with "async-resolver" at a page whose nextPage or shouldSkip returns
+ * a Promise; use simulateFlowAsync for those flows.
+ *
+ * @example
+ * ```ts
+ * const { pages, status } = simulateFlow(graph, { plan: { type: "basic" } });
+ * expect(pages).toEqual(["account", "plan", "done"]);
+ * ```
+ */
+export function simulateFlow(
+	graph: FlowGraph,
+	state: FlowStateByPage,
+	options: SimulateFlowOptions = {},
+): FlowSimulationResult {
+	return walkFlow(graph, state, {
+		startPage: options.startPage,
+	}) as FlowSimulationResult;
+}
+
+/**
+ * Like simulateFlow, but awaits async nextPage resolvers and shouldSkip predicates
+ */
+export function simulateFlowAsync(
+	graph: FlowGraph,
+	state: FlowStateByPage,
+	options: SimulateFlowOptions = {},
+): Promise<FlowSimulationResult> {
+	return Promise.resolve(
+		walkFlow(graph, state, { startPage: options.startPage, awaitAsync: true }),
+	);
+}
+
+/**
+ * Options for validateGraph
+ */
+export type ValidateGraphOptions = {
+	/**
+	 * Component loaders passed to Flow. When given, pages without a loader are reported.
+	 */
+	componentLoaders?: ReadonlyMap<string, unknown>;
+};
+
+/**
+ * Gets the pages a node can move forward to.
+ * Returns null when unknown (function nextPage without declared branches).
+ */
+function getForwardTargets(node: FlowNode): string[] | null {
+	if (!node.nextPage) {
+		return [];
+	}
+	if (typeof node.nextPage !== "function") {
+		return [node.nextPage];
+	}
+	return node.branches ?? null;
+}
+
+/**
+ * Finds the strongly connected components of the known forward edges
+ * (Tarjan's algorithm). Components are returned in reverse topological order.
+ */
+function getStronglyConnectedComponents(
+	graph: FlowGraph,
+	edges: Map<string, string[]>,
+): string[][] {
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	function connect(page: string) {
+		index.set(page, index.size);
+		lowLink.set(page, index.get(page) as number);
+		stack.push(page);
+		onStack.add(page);
+
+		for (const target of edges.get(page) ?? []) {
+			if (!index.has(target)) {
+				connect(target);
+				lowLink.set(
+					page,
+					Math.min(lowLink.get(page) as number, lowLink.get(target) as number),
+				);
+			} else if (onStack.has(target)) {
+				lowLink.set(
+					page,
+					Math.min(lowLink.get(page) as number, index.get(target) as number),
+				);
+			}
+		}
+
+		if (lowLink.get(page) === index.get(page)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop() as string;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== page);
+			components.push(component);
+		}
+	}
+
+	for (const page of graph.nodes.keys()) {
+		if (!index.has(page)) {
+			connect(page);
+		}
+	}
+
+	return components;
 }
 
 /**
- * Validates that all referenced pages in the graph exist
+ * Statically analyzes a flow graph. Reports:
+ * - references to pages that don't exist (errors)
+ * - pages without a component loader, when `componentLoaders` is given (errors)
+ * - cycles that can never reach the end of the flow (errors)
+ * - pages not reachable from the entry point (warnings; skipped when a reachable
+ *   function `nextPage` has no declared `branches`, since its targets are unknown)
+ * - pages without a next page that are not marked `terminal` (warnings)
+ * - `previousPageFallback` pages that don't lead forward to the page (warnings)
+ *
+ * `errors` keeps the messages of error diagnostics; `diagnostics` has everything.
  */
-export function validateGraph(graph: FlowGraph): {
-	valid: boolean;
-	errors: string[];
-} {
-	const errors: string[] = [];
+export function validateGraph(
+	graph: FlowGraph,
+	options: ValidateGraphOptions = {},
+): GraphValidationResult {
+	const diagnostics: GraphDiagnostic[] = [];
 
 	// Check that entry point exists
 	if (graph.entryPoint && !graph.nodes.has(graph.entryPoint)) {
-		errors.push(`Entry point "${graph.entryPoint}" does not exist in graph`);
+		diagnostics.push({
+			code: "missing-entry-point",
+			severity: "error",
+			message: `Entry point "${graph.entryPoint}" does not exist in graph`,
+		});
 	}
 
+	// Known forward edges to existing pages; absent for resolvers without branches
+	const edges = new Map<string, string[]>();
+
 	// Validate all node references
 	for (const [page, node] of graph.nodes.entries()) {
 		// Check previousPageFallback reference
@@ -277,27 +632,176 @@ export function validateGraph(graph: FlowGraph): {
 			node.previousPageFallback &&
 			!graph.nodes.has(node.previousPageFallback)
 		) {
-			errors.push(
-				`Node "${page}" references non-existent previous page "${node.previousPageFallback}"`,
-			);
+			diagnostics.push({
+				code: "missing-previous-page",
+				severity: "error",
+				node: page,
+				message: `Node "${page}" references non-existent previous page "${node.previousPageFallback}"`,
+			});
 		}
 
 		// Check nextPage reference (for string case)
 		if (node.nextPage && typeof node.nextPage !== "function") {
 			if (!graph.nodes.has(node.nextPage)) {
-				errors.push(
-					`Node "${page}" references non-existent next page "${node.nextPage}"`,
-				);
+				diagnostics.push({
+					code: "missing-next-page",
+					severity: "error",
+					node: page,
+					message: `Node "${page}" references non-existent next page "${node.nextPage}"`,
+				});
+			}
+		}
+
+		// Check declared branch targets (for function case)
+		for (const branch of node.branches ?? []) {
+			if (!graph.nodes.has(branch)) {
+				diagnostics.push({
+					code: "missing-branch-target",
+					severity: "error",
+					node: page,
+					message: `Node "${page}" declares non-existent branch target "${branch}"`,
+				});
 			}
 		}
+
+		if (options.componentLoaders && !options.componentLoaders.has(page)) {
+			diagnostics.push({
+				code: "missing-component-loader",
+				severity: "error",
+				node: page,
+				message: `Node "${page}" has no component loader`,
+			});
+		}
+
+		if (!node.nextPage && !node.terminal) {
+			diagnostics.push({
+				code: "dead-end",
+				severity: "warning",
+				node: page,
+				message: `Node "${page}" has no next page and is not marked terminal`,
+			});
+		}
+
+		const targets = getForwardTargets(node);
+		if (targets) {
+			edges.set(
+				page,
+				targets.filter((target) => graph.nodes.has(target)),
+			);
+		}
 	}
 
+	// Unreachable pages
+	if (graph.entryPoint && graph.nodes.has(graph.entryPoint)) {
+		const reachable = new Set<string>([graph.entryPoint]);
+		const queue = [graph.entryPoint];
+		let complete = true;
+		while (queue.length > 0) {
+			const page = queue.shift() as string;
+			const targets = edges.get(page);
+			if (!targets) {
+				complete = false;
+				break;
+			}
+			for (const target of targets) {
+				if (!reachable.has(target)) {
+					reachable.add(target);
+					queue.push(target);
+				}
+			}
+		}
+
+		if (complete) {
+			for (const page of graph.nodes.keys()) {
+				if (!reachable.has(page)) {
+					diagnostics.push({
+						code: "unreachable-node",
+						severity: "warning",
+						node: page,
+						message: `Node "${page}" is not reachable from entry point "${graph.entryPoint}"`,
+					});
+				}
+			}
+		}
+	}
+
+	// Cycles with no exit. A page can exit if it ends the flow, has unknown
+	// targets or points at a missing page (already reported), or leads to one.
+	const canExit = new Set<string>();
+	for (const [page, node] of graph.nodes.entries()) {
+		const targets = getForwardTargets(node);
+		if (
+			!targets ||
+			targets.length === 0 ||
+			targets.some((target) => !graph.nodes.has(target))
+		) {
+			canExit.add(page);
+		}
+	}
+	for (const component of getStronglyConnectedComponents(graph, edges)) {
+		// Components come out successors first, so targets are already resolved
+		const leadsOut = component.some((page) =>
+			(edges.get(page) ?? []).some((target) => canExit.has(target)),
+		);
+		if (leadsOut || component.some((page) => canExit.has(page))) {
+			for (const page of component) {
+				canExit.add(page);
+			}
+			continue;
+		}
+
+		const isCycle =
+			component.length > 1 ||
+			(edges.get(component[0]) ?? []).includes(component[0]);
+		if (isCycle) {
+			const pages = [...graph.nodes.keys()].filter((page) =>
+				component.includes(page),
+			);
+			diagnostics.push({
+				code: "cycle-without-exit",
+				severity: "error",
+				node: pages[0],
+				message: `Pages ${pages.map((page) => `"${page}"`).join(", ")} form a cycle with no way to finish the flow`,
+			});
+		}
+	}
+
+	// previousPageFallback should point at a page that leads forward here
+	for (const [page, node] of graph.nodes.entries()) {
+		const previous = node.previousPageFallback;
+		if (!previous || !graph.nodes.has(previous)) {
+			continue;
+		}
+		const targets = edges.get(previous);
+		if (targets && !targets.includes(page)) {
+			diagnostics.push({
+				code: "inconsistent-previous-page",
+				severity: "warning",
+				node: page,
+				message: `Node "${page}" falls back to previous page "${previous}", which does not lead to "${page}"`,
+			});
+		}
+	}
+
+	const errors = diagnostics
+		.filter((diagnostic) => diagnostic.severity === "error")
+		.map((diagnostic) => diagnostic.message);
+
 	return {
 		valid: errors.length === 0,
 		errors,
+		diagnostics,
 	};
 }
 
+/**
+ * Identifies a graph by its page ids, so flows of different graphs sharing a
+ * storage backend can be told apart
+ */
+export function getGraphKey(graph: FlowGraph): string {
+	return [...graph.nodes.keys()].sort().join(",");
+}
+
 /**
  * Gets all pages in the graph in topological order (if possible)
  * Falls back to registration order if cycles exist
@@ -324,9 +828,13 @@ export function getPagesInOrder(graph: FlowGraph): string[] {
 
 		result.push(page);
 
-		// Visit next page
+		// Visit next page, or the declared branch targets of a resolver
 		if (node.nextPage && typeof node.nextPage !== "function") {
 			visit(node.nextPage);
+		} else if (node.branches) {
+			for (const branch of node.branches) {
+				visit(branch);
+			}
 		}
 	}
 
@@ -0,0 +1,178 @@
+import {
+	goBackInBrowser,
+	subscribeToBrowserUrl,
+	updateBrowserUrl,
+} from "@/flow/browserHistory";
+import { parsePathTemplate } from "@/flow/pathParamHelpers";
+import type { UrlParamsAdapter } from "@/flow/types";
+
+/**
+ * Configuration for hash-based URL parameters
+ */
+export type HashConfig = {
+	/**
+	 * Path template for the hash, with named segments in brackets
+	 * Example: "/[id]/[page]" would match "#/abc123/pageA"
+	 * Omit to keep the params as a query string in the hash: "#page=pageA&id=abc123"
+	 */
+	template?: string;
+};
+
+/**
+ * Parses a hash path by segment position. Unlike parsePath, segments may be
+ * empty: the flow writes the UUID before the first page.
+ * Example: hash="/abc/", template="/[id]/[page]" -> { id: "abc" }
+ */
+function parseHashPath(hash: string, template: string): Record<string, string> {
+	const params: Record<string, string> = {};
+	const segments = hash.split("/");
+	const templateSegments = template.split("/");
+	for (let i = 0; i < templateSegments.length; i++) {
+		const name = templateSegments[i].match(/^\[([^\]]+)\]$/)?.[1];
+		if (!name) {
+			if (templateSegments[i] !== (segments[i] ?? "")) {
+				return {}; // Not a hash of this template
+			}
+		} else if (segments[i]) {
+			params[name] = decodeURIComponent(segments[i]);
+		}
+	}
+	return params;
+}
+
+/**
+ * Builds a hash path, leaving segments without a value empty
+ * Example: template="/[id]/[page]", params={id: "abc"} -> "/abc/"
+ */
+function buildHashPath(
+	template: string,
+	params: Record<string, string>,
+): string {
+	return template.replace(/\[([^\]]+)\]/g, (_, name: string) =>
+		encodeURIComponent(params[name] ?? ""),
+	);
+}
+
+/**
+ * Creates a hash-based URL params adapter
+ * Keeps the params in the URL hash, for hosts where the path and query string
+ * can't be changed (static hosting, embedding in other apps)
+ *
+ * @param config - Optional path template for the hash
+ * @returns A UrlParamsAdapter that works with the URL hash
+ *
+ * @example
+ * ```ts
+ * // URLs will be like: /app.html#page=pageA&id=abc123
+ * const adapter = createHashParamsAdapter();
+ *
+ * // URLs will be like: /app.html#/abc123/pageA
+ * const adapter = createHashParamsAdapter({ template: "/[id]/[page]" });
+ * ```
+ */
+export function createHashParamsAdapter(
+	config: HashConfig = {},
+): UrlParamsAdapter {
+	const { template } = config;
+	const paramNames = template ? parsePathTemplate(template) : [];
+
+	const getCurrentHash = (): string => {
+		if (typeof window === "undefined") {
+			return "";
+		}
+		return window.location.hash.slice(1);
+	};
+
+	const getCurrentParams = (): Record<string, string> => {
+		const hash = getCurrentHash();
+		if (template) {
+			return parseHashPath(hash, template);
+		}
+		return Object.fromEntries(new URLSearchParams(hash));
+	};
+
+	// Whether all keys can be stored; warns about the ones not in the template
+	const checkParams = (keys: string[]): boolean => {
+		if (!template) {
+			return true;
+		}
+		const unknown = keys.filter((key) => !paramNames.includes(key));
+		for (const key of unknown) {
+			console.warn(
+				`Parameter "${key}" is not defined in hash template: ${template}`,
+			);
+		}
+		return unknown.length === 0;
+	};
+
+	const buildHash = (
+		updates: Record<string, string>,
+		replaceAll = false,
+	): string => {
+		if (template) {
+			return buildHashPath(
+				template,
+				replaceAll ? updates : { ...getCurrentParams(), ...updates },
+			);
+		}
+		const params = new URLSearchParams(replaceAll ? "" : getCurrentHash());
+		for (const [key, value] of Object.entries(updates)) {
+			params.set(key, value);
+		}
+		return params.toString();
+	};
+
+	const updateHash = (hash: string, mode: "push" | "replace"): void => {
+		const url = new URL(window.location.href);
+		url.hash = hash;
+		updateBrowserUrl(url.toString(), mode);
+	};
+
+	return {
+		getParam: (key: string): string | null => {
+			const params = getCurrentParams();
+			return params[key] || null;
+		},
+
+		setParam: (key: string, value: string): void => {
+			if (typeof window === "undefined" || !checkParams([key])) {
+				return;
+			}
+			updateHash(buildHash({ [key]: value }), "push");
+		},
+
+		replaceParam: (key: string, value: string): void => {
+			if (typeof window === "undefined" || !checkParams([key])) {
+				return;
+			}
+			updateHash(buildHash({ [key]: value }), "replace");
+		},
+
+		getAllParams: (): Record<string, string> => {
+			return getCurrentParams();
+		},
+
+		replaceParams: (params: Record<string, string>): void => {
+			if (typeof window === "undefined") {
+				return;
+			}
+			checkParams(Object.keys(params));
+			updateHash(buildHash(params, true), "replace");
+		},
+
+		// Hash links and manual edits fire hashchange; back/forward fires popstate
+		subscribe: (listener: () => void): (() => void) => {
+			if (typeof window === "undefined") {
+				return () => {};
+			}
+			const unsubscribe = subscribeToBrowserUrl(listener);
+			window.addEventListener("hashchange", listener);
+			return () => {
+				unsubscribe();
+				window.removeEventListener("hashchange", listener);
+			};
+		},
+
+		back: goBackInBrowser,
+	};
+}
@@ -1,5 +1,26 @@
-// Graph orchestration
-
+// Async state storage
+export {
+	AsyncStateManager,
+	type AsyncStateManagerOptions,
+	IndexedDBStateAdapter,
+	type IndexedDBStateAdapterOptions,
+} from "@/flow/asyncStateManagers";
+// Cross-tab sync
+export type {
+	CrossTabSyncConfig,
+	CrossTabSyncPolicy,
+} from "@/flow/crossTabSync";
+// Typed flow definitions
+export {
+	defineFlow,
+	type FlowPageId,
+	type FlowPageStates,
+	type TypedFlow,
+	type TypedFlowDefinition,
+	type TypedFlowNode,
+	type TypedFlowStateByPage,
+	type TypedUseFlowReturn,
+} from "@/flow/defineFlow";
 // Main Flow component
 export {
 	Flow,
@@ -11,21 +32,82 @@ export {
 	FlowContext,
 	useFlowContext,
 } from "@/flow/FlowContext";
+// Path enumeration and coverage
+export {
+	type EnumerateFlowPathsOptions,
+	enumerateFlowPaths,
+	enumerateFlowPathsAsync,
+	type FlowCoverageReport,
+	type FlowEdge,
+	type FlowRoute,
+} from "@/flow/flowCoverage";
+// Expiration
+export {
+	type FlowExpirationConfig,
+	getExpiredReason,
+	getExpiresAt,
+	isStaleFlow,
+} from "@/flow/flowExpiry";
+// State storage
+export {
+	LocalStorageStateManager,
+	MemoryStateManager,
+	WizardStateManager,
+	defaultStateManager,
+} from "@/flow/flowStateManagers";
+// Graph export (diagrams)
+export {
+	describeGraph,
+	type FlowGraphDescription,
+	type FlowGraphEdgeDescription,
+	type FlowGraphNodeDescription,
+	type GraphExportOptions,
+	graphToDot,
+	graphToJSON,
+	graphToMermaid,
+} from "@/flow/graphExport";
+// Graph orchestration
 export {
 	createFlowGraph,
 	getAllNextPages,
 	getNextNonSkippedPage,
+	getNextNonSkippedPageAsync,
 	getNextPage,
+	getNextPageAsync,
 	getNode,
 	getPagesInOrder,
 	getPreviousNonSkippedPage,
+	getPreviousNonSkippedPageAsync,
 	getPreviousPage,
+	getPreviousPageAsync,
 	initializeFlow,
 	registerNode,
 	resolveNextPage,
+	resolveNextPageAsync,
+	type SimulateFlowOptions,
 	shouldSkipStep,
+	shouldSkipStepAsync,
+	simulateFlow,
+	simulateFlowAsync,
+	type ValidateGraphOptions,
 	validateGraph,
 } from "@/flow/graphHelpers";
+// Hash params (static hosts, legacy apps)
+export { createHashParamsAdapter, type HashConfig } from "@/flow/hashParams";
+// In-memory URL params (modals, tests, embedded widgets)
+export {
+	createMemoryUrlParamsAdapter,
+	type MemoryUrlParamsAdapter,
+} from "@/flow/memoryUrlParams";
+// Navigation guards
+export type { NavigationGuard } from "@/flow/navigationGuards";
+// Next.js App Router integration
+export {
+	type NextRouteParams,
+	type NextRouter,
+	type NextUrlParamsOptions,
+	useNextUrlParamsAdapter,
+} from "@/flow/nextUrlParams";
 // Presenter
 export {
 	Presenter,
@@ -35,18 +117,64 @@ export {
 export {
 	createPathParamsAdapter,
 	createPathParamsAdapterFromProps,
+	matchPath,
 	type PathConfig,
+	type PathConstraints,
+	type PathMatch,
+	type PathParamsAdapter,
 } from "@/flow/pathParamHelpers";
+// React Router integration
+export {
+	type ReactRouterUrlParamsOptions,
+	type RouterLocation,
+	type RouterNavigate,
+	useReactRouterUrlParamsAdapter,
+} from "@/flow/reactRouterUrlParams";
+// Resume links
+export {
+	decodeResumeToken,
+	encodeResumeToken,
+	type ResumeConfig,
+	type ResumeTokenOptions,
+	type ResumeTokenPayload,
+} from "@/flow/resumeTokens";
+// Remote state storage
+export {
+	type FlowStateConflict,
+	RemoteStateAdapter,
+	type RemoteStateAdapterOptions,
+} from "@/flow/remoteStateAdapter";
 export type {
+	AsyncFlowStateStorage,
+	ExpiredReason,
 	FlowContextValue,
 	FlowGraph,
+	FlowMetadata,
+	FlowNavigation,
 	FlowNode,
+	FlowSimulationResult,
+	FlowSimulationStuckReason,
 	FlowState,
 	FlowStateByPage,
+	FlowStateStorage,
+	FlowValidationErrors,
+	GraphDiagnostic,
+	GraphDiagnosticCode,
+	GraphValidationResult,
+	MaybePromise,
+	NavigationDirection,
+	NavigationGuardResult,
 	NextPageResolver,
 	UrlParamsAdapter,
+	UseFlowExpiryReturn,
 	UseFlowReturn,
 } from "@/flow/types";
+// URL state bindings
+export type { UrlStateBinding } from "@/flow/urlStateBindings";
 // Hooks
 export { useFlow } from "@/flow/useFlow";
+export {
+	type UseFlowExpiryOptions,
+	useFlowExpiry,
+} from "@/flow/useFlowExpiry";
 export { useUrlParams } from "@/flow/useURLParams";
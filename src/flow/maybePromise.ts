@@ -0,0 +1,63 @@
+import type { MaybePromise } from "@/flow/types";
+
+/**
+ * Checks whether a value is a Promise (or thenable)
+ */
+export function isPromiseLike<T>(
+	value: MaybePromise<T>,
+): value is PromiseLike<T> & Promise<T> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as { then?: unknown }).then === "function"
+	);
+}
+
+/**
+ * Continues with a value that may still be pending.
+ * Stays synchronous when the value is, so sync flows navigate without a tick.
+ */
+export function chain<T, R>(
+	value: MaybePromise<T>,
+	next: (value: T) => MaybePromise<R>,
+): MaybePromise<R> {
+	return isPromiseLike(value) ? Promise.resolve(value).then(next) : next(value);
+}
+
+/**
+ * Returns a sync value as is, or the fallback when it is still pending.
+ * Rejections of the ignored promise are swallowed.
+ */
+export function settleSync<T>(value: MaybePromise<T>, fallback: T): T {
+	if (isPromiseLike(value)) {
+		value.then(undefined, () => {});
+		return fallback;
+	}
+	return value;
+}
+
+/**
+ * Rejects when a promise doesn't settle within `ms` (no timeout when undefined or Infinity)
+ */
+export function withTimeout<T>(
+	promise: Promise<T>,
+	ms: number | undefined,
+	message: string,
+): Promise<T> {
+	if (ms === undefined || !Number.isFinite(ms)) {
+		return promise;
+	}
+	return new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(() => reject(new Error(message)), ms);
+		promise.then(
+			(value) => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(error: unknown) => {
+				clearTimeout(timer);
+				reject(error);
+			},
+		);
+	});
+}
@@ -0,0 +1,101 @@
+import type { UrlParamsAdapter } from "@/flow/types";
+
+/**
+ * URL params adapter that keeps its params and history in memory
+ */
+export type MemoryUrlParamsAdapter = UrlParamsAdapter & {
+	subscribe: (listener: () => void) => () => void;
+
+	/**
+	 * Goes to the previous history entry (no-op on the first one)
+	 */
+	back: () => void;
+
+	/**
+	 * Goes to the next history entry (no-op on the last one)
+	 */
+	forward: () => void;
+
+	/**
+	 * Moves `delta` entries through the history, clamped to its bounds
+	 */
+	go: (delta: number) => void;
+
+	/**
+	 * History entries, oldest first
+	 */
+	getEntries: () => Record<string, string>[];
+
+	/**
+	 * Index of the current history entry
+	 */
+	getIndex: () => number;
+};
+
+/**
+ * Creates a URL params adapter that never touches `window.location`. It keeps
+ * its own history stack: setParam pushes an entry (dropping forward entries),
+ * replaceParam/replaceParams replace the current one, and back/forward/go move
+ * through it like the browser's history. Every change notifies subscribers.
+ *
+ * Use it to run a flow inside a modal, in unit tests, or in an embedded widget
+ * whose host owns the URL. Create one adapter per flow instance and keep it
+ * stable (module-level or useState).
+ *
+ * @example
+ * ```tsx
+ * const [adapter] = useState(() => createMemoryUrlParamsAdapter({ page: "account" }));
+ * <Flow graph={graph} config={{ urlParamsAdapter: adapter }} />
+ * ```
+ */
+export function createMemoryUrlParamsAdapter(
+	initialParams: Record<string, string> = {},
+): MemoryUrlParamsAdapter {
+	const entries: Record<string, string>[] = [{ ...initialParams }];
+	let index = 0;
+	const listeners = new Set<() => void>();
+
+	const notify = () => {
+		for (const listener of [...listeners]) {
+			listener();
+		}
+	};
+
+	const push = (params: Record<string, string>) => {
+		entries.splice(index + 1, entries.length, params);
+		index++;
+		notify();
+	};
+
+	const replace = (params: Record<string, string>) => {
+		entries[index] = params;
+		notify();
+	};
+
+	const go = (delta: number) => {
+		const nextIndex = Math.min(Math.max(index + delta, 0), entries.length - 1);
+		if (nextIndex !== index) {
+			index = nextIndex;
+			notify();
+		}
+	};
+
+	return {
+		getParam: (key) => entries[index][key] ?? null,
+		setParam: (key, value) => push({ ...entries[index], [key]: value }),
+		replaceParam: (key, value) => replace({ ...entries[index], [key]: value }),
+		getAllParams: () => ({ ...entries[index] }),
+		replaceParams: (params) => replace({ ...params }),
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		back: () => go(-1),
+		forward: () => go(1),
+		go,
+		getEntries: () => entries.map((entry) => ({ ...entry })),
+		getIndex: () => index,
+	};
+}
@@ -0,0 +1,111 @@
+import { chain } from "@/flow/maybePromise";
+import type {
+	FlowGraph,
+	FlowNavigation,
+	MaybePromise,
+	NavigationGuardResult,
+} from "@/flow/types";
+
+/**
+ * Flow-level navigation guard, run between the pages' canLeave and canEnter
+ */
+export type NavigationGuard = (
+	navigation: FlowNavigation,
+) => MaybePromise<NavigationGuardResult>;
+
+/**
+ * Options for runNavigationGuards
+ */
+type RunNavigationGuardsOptions = {
+	/**
+	 * Flow-level guard from FlowConfig
+	 */
+	guard?: NavigationGuard;
+
+	/**
+	 * Asks the user to confirm a `{ confirm }` decision
+	 */
+	confirm: (message: string) => MaybePromise<boolean>;
+};
+
+/**
+ * Default confirmation: the browser's confirm dialog (allows when there is no window)
+ */
+export function defaultConfirmNavigation(message: string): boolean {
+	return typeof window === "undefined" || window.confirm(message);
+}
+
+/**
+ * Redirects followed before a navigation is cancelled as a loop
+ */
+const MAX_GUARD_REDIRECTS = 10;
+
+/**
+ * Runs the guards for a navigation: the current page's canLeave, the
+ * flow-level guard, then the target page's canEnter. Stops at the first guard
+ * that cancels or redirects. A redirect runs the flow-level guard and canEnter
+ * again for the new page (as a "jump"), up to MAX_GUARD_REDIRECTS times.
+ * Returns the page to show (the target or a redirect), or null when cancelled.
+ * Stays synchronous when all guards are.
+ */
+export function runNavigationGuards(
+	graph: FlowGraph,
+	navigation: FlowNavigation,
+	options: RunNavigationGuardsOptions,
+): MaybePromise<string | null> {
+	const { from, state } = navigation;
+	const fromNode = from ? graph.nodes.get(from) : undefined;
+
+	const runFor = (
+		target: FlowNavigation,
+		redirects: number,
+	): MaybePromise<string | null> => {
+		const { to, direction } = target;
+		const guards = [
+			// Leaving was already allowed (or redirected) on the way to a redirect
+			() => (redirects === 0 ? fromNode?.canLeave?.(state, direction) : true),
+			() => options.guard?.(target),
+			() => graph.nodes.get(to)?.canEnter?.(state, direction),
+		];
+
+		const run = (index: number): MaybePromise<string | null> => {
+			if (index >= guards.length) {
+				return to;
+			}
+
+			return chain(guards[index]() ?? true, (decision) => {
+				if (decision === true) {
+					return run(index + 1);
+				}
+				if (decision === false) {
+					return null;
+				}
+				if ("redirect" in decision) {
+					if (!graph.nodes.has(decision.redirect)) {
+						console.warn(
+							`Navigation guard redirected to "${decision.redirect}", which does not exist in graph`,
+						);
+						return null;
+					}
+					if (redirects >= MAX_GUARD_REDIRECTS) {
+						console.warn(
+							`Navigation guards redirected more than ${MAX_GUARD_REDIRECTS} times (last to "${decision.redirect}"); cancelling`,
+						);
+						return null;
+					}
+					return runFor(
+						{ ...target, to: decision.redirect, direction: "jump" },
+						redirects + 1,
+					);
+				}
+				return chain(options.confirm(decision.confirm), (confirmed) =>
+					confirmed ? run(index + 1) : null,
+				);
+			});
+		};
+
+		return run(0);
+	};
+
+	return runFor(navigation, 0);
+}
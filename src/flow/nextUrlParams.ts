@@ -0,0 +1,245 @@
+"use client";
+
+import { isPromiseLike } from "@/flow/maybePromise";
+import {
+	buildPath,
+	parsePath,
+	parsePathTemplate,
+} from "@/flow/pathParamHelpers";
+import type { UrlParamsAdapter } from "@/flow/types";
+import * as React from "react";
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * The parts of the App Router the adapter uses (`useRouter()` from "next/navigation")
+ */
+export type NextRouter = {
+	push: (href: string, options?: { scroll?: boolean }) => void;
+	replace: (href: string, options?: { scroll?: boolean }) => void;
+	back: () => void;
+};
+
+/**
+ * Dynamic route params, as passed to pages or returned by `useParams()`
+ */
+export type NextRouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Options for useNextUrlParamsAdapter
+ */
+export type NextUrlParamsOptions = {
+	/**
+	 * From `useRouter()` ("next/navigation")
+	 */
+	router: NextRouter;
+
+	/**
+	 * Route params: the page's `params` prop (a Promise since Next.js 15)
+	 * or `useParams()`
+	 */
+	params: NextRouteParams | Promise<NextRouteParams>;
+
+	/**
+	 * From `useSearchParams()`. Params that aren't in the template are kept
+	 * in the query string.
+	 */
+	searchParams?: URLSearchParams | null;
+
+	/**
+	 * Path template with named segments matching the route's dynamic segments,
+	 * e.g. "/[id]/[page]" for app/flow/[id]/[page]/page.tsx
+	 */
+	template: string;
+
+	/**
+	 * Base path prepended to the template, e.g. "/flow"
+	 */
+	basePath?: string;
+
+	/**
+	 * Passed to router.push/replace (default: false, the flow keeps the scroll position)
+	 */
+	scroll?: boolean;
+};
+
+/**
+ * A route: its path params and query string
+ */
+type NextRoute = {
+	pathParams: Record<string, string>;
+	search: string;
+};
+
+/**
+ * React 19's `use`, which reads Promise params while rendering (undefined on React 18)
+ */
+const reactUse = (React as { use?: <T>(promise: Promise<T>) => T }).use;
+
+/**
+ * Flattens route params: catch-all segments (arrays) are joined with "/"
+ */
+function toPathParams(params: NextRouteParams): Record<string, string> {
+	const pathParams: Record<string, string> = {};
+	for (const [key, value] of Object.entries(params)) {
+		if (value !== undefined) {
+			pathParams[key] = Array.isArray(value) ? value.join("/") : value;
+		}
+	}
+	return pathParams;
+}
+
+/**
+ * Resolves the params prop. With React 19 a Promise is read with `use`, so the
+ * first render (also on the server) has the params; on React 18 it resolves in
+ * an effect and the params are read from the browser URL meanwhile.
+ */
+function useResolvedParams(
+	params: NextRouteParams | Promise<NextRouteParams>,
+	template: string,
+): Record<string, string> {
+	const [resolved, setResolved] = useState<{
+		promise: Promise<NextRouteParams>;
+		params: NextRouteParams;
+	} | null>(null);
+
+	useEffect(() => {
+		if (!isPromiseLike(params) || reactUse) {
+			return;
+		}
+		let cancelled = false;
+		params.then((value) => {
+			if (!cancelled) {
+				setResolved({ promise: params, params: value });
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [params]);
+
+	if (!isPromiseLike(params)) {
+		return toPathParams(params);
+	}
+	if (reactUse) {
+		return toPathParams(reactUse(params));
+	}
+	if (resolved?.promise === params) {
+		return toPathParams(resolved.params);
+	}
+	return typeof window === "undefined"
+		? {}
+		: parsePath(window.location.pathname, template);
+}
+
+/**
+ * URL params adapter for the Next.js App Router. Navigates with `router.push`
+ * and `router.replace`, so `usePathname()`, `useParams()` and server components
+ * stay in sync with the flow, and reads the params from the route instead of
+ * `window.location`, so the page in the URL renders on the server and on the
+ * first client render.
+ *
+ * Params named in the template are path segments; others go to the query string.
+ * The adapter is stable across renders; route changes made by the router
+ * (links, back/forward) reach the flow through `subscribe`.
+ *
+ * @example
+ * ```tsx
+ * // app/flow/[id]/[page]/page.tsx
+ * "use client";
+ * export default function FlowPage({ params }: { params: Promise<{ id: string; page: string }> }) {
+ *   const adapter = useNextUrlParamsAdapter({
+ *     router: useRouter(),
+ *     params,
+ *     searchParams: useSearchParams(),
+ *     template: "/[id]/[page]",
+ *     basePath: "/flow",
+ *   });
+ *   return <Flow graph={graph} config={{ urlParamsAdapter: adapter }} />;
+ * }
+ * ```
+ */
+export function useNextUrlParamsAdapter(
+	options: NextUrlParamsOptions,
+): UrlParamsAdapter {
+	const { router, searchParams, basePath, scroll = false } = options;
+	const template = basePath
+		? `${basePath}${options.template}`
+		: options.template;
+
+	const pathParams = useResolvedParams(options.params, template);
+	const search = searchParams?.toString() ?? "";
+	const route: NextRoute = { pathParams, search };
+
+	// Latest values for the stable adapter. `routeRef` also holds routes
+	// navigated to but not rendered by the router yet.
+	const routerRef = useRef(router);
+	routerRef.current = router;
+	const routeRef = useRef(route);
+	const templateRef = useRef(template);
+	templateRef.current = template;
+	const scrollRef = useRef(scroll);
+	scrollRef.current = scroll;
+	const listenersRef = useRef(new Set<() => void>());
+
+	// Route params are new objects on every render: compare them serialized
+	const routeKey = JSON.stringify(route);
+	useEffect(() => {
+		routeRef.current = JSON.parse(routeKey);
+		for (const listener of [...listenersRef.current]) {
+			listener();
+		}
+	}, [routeKey]);
+
+	const [adapter] = useState((): UrlParamsAdapter => {
+		const isPathParam = (key: string) =>
+			parsePathTemplate(templateRef.current).includes(key);
+
+		const getParams = (): Record<string, string> => ({
+			...Object.fromEntries(new URLSearchParams(routeRef.current.search)),
+			...routeRef.current.pathParams,
+		});
+
+		const go = (
+			updates: Record<string, string>,
+			replace: boolean,
+			replaceAll = false,
+		) => {
+			const current = routeRef.current;
+			const pathParams = { ...current.pathParams };
+			const query = new URLSearchParams(replaceAll ? "" : current.search);
+			for (const [key, value] of Object.entries(updates)) {
+				if (!isPathParam(key)) {
+					query.set(key, value);
+				} else if (value) {
+					// A path segment can't be empty: keep the current value instead
+					pathParams[key] = value;
+				}
+			}
+			const next = { pathParams, search: query.toString() };
+			routeRef.current = next;
+
+			const path = buildPath(templateRef.current, next.pathParams);
+			const href = next.search ? `${path}?${next.search}` : path;
+			routerRef.current[replace ? "replace" : "push"](href, {
+				scroll: scrollRef.current,
+			});
+		};
+
+		return {
+			getParam: (key) => getParams()[key] ?? null,
+			setParam: (key, value) => go({ [key]: value }, false),
+			replaceParam: (key, value) => go({ [key]: value }, true),
+			getAllParams: () => getParams(),
+			replaceParams: (params) => go(params, true, true),
+			subscribe: (listener) => {
+				listenersRef.current.add(listener);
+				return () => {
+					listenersRef.current.delete(listener);
+				};
+			},
+			back: () => routerRef.current.back(),
+		};
+	});
+
+	return adapter;
+}
@@ -1,5 +1,20 @@
+import {
+	goBackInBrowser,
+	subscribeToBrowserUrl,
+	updateBrowserUrl,
+} from "@/flow/browserHistory";
 import type { UrlParamsAdapter } from "@/flow/types";
 
+/**
+ * Constraints on segment values, by param name: a RegExp the whole value must
+ * match, or a predicate. A template whose segments don't satisfy them doesn't match.
+ * Example: { id: /[a-z0-9]{5}/, page: (value) => value !== "admin" }
+ */
+export type PathConstraints = Record<
+	string,
+	RegExp | ((value: string) => boolean)
+>;
+
 /**
  * Configuration for path-based URL parameters
  * Defines the structure of the URL path with named segments
@@ -9,78 +24,311 @@ import type { UrlParamsAdapter } from "@/flow/types";
  */
 export type PathConfig = {
 	/**
-	 * Path template with named segments in brackets
+	 * Path template with named segments in brackets, or several templates
+	 * in priority order (the first one matching the path is used)
 	 * Example: "/[id]/page/[page]" or "/wizard/[id]/[page]"
+	 *
+	 * Segments:
+	 * - `[name]`: required segment
+	 * - `[name?]`: optional segment
+	 * - `[...name]`: catch-all, one or more segments (value "a/b/c")
+	 * - `[[...name]]`: optional catch-all
 	 */
-	template: string;
+	template: string | string[];
 
 	/**
 	 * Base path to prepend to the template (optional)
 	 * Example: "/wizard" would make the full path "/wizard/[id]/page/[page]"
 	 */
 	basePath?: string;
+
+	/**
+	 * Constraints on segment values (optional)
+	 */
+	constraints?: PathConstraints;
+
+	/**
+	 * Keep params that aren't in the template in the query string (default: false,
+	 * they are ignored with a warning). Example: "/abc123/page/pageA?returnTo=%2Fhome"
+	 */
+	hybrid?: boolean;
+};
+
+/**
+ * A path matched against a template
+ */
+export type PathMatch = {
+	/**
+	 * The template that matched
+	 */
+	template: string;
+
+	/**
+	 * Param values extracted from the path
+	 */
+	params: Record<string, string>;
+
+	/**
+	 * Segments before the template (like /en)
+	 */
+	prefix: string;
 };
 
+/**
+ * A path params adapter that also reports which template matched
+ */
+export type PathParamsAdapter = UrlParamsAdapter & {
+	/**
+	 * The template (including basePath) matching the current path, or null
+	 */
+	getMatchedTemplate: () => string | null;
+};
+
+/**
+ * One `/`-separated part of a template
+ */
+type TemplateSegment =
+	| { type: "static"; text: string }
+	| { type: "param"; name: string; optional: boolean }
+	| { type: "catchAll"; name: string; optional: boolean };
+
+/**
+ * Parses a template segment: a whole-segment param (optional or catch-all)
+ * or static text, possibly with `[name]` placeholders
+ */
+function parseSegment(segment: string): TemplateSegment {
+	const optionalCatchAll = segment.match(/^\[\[\.\.\.([^\]]+)\]\]$/);
+	if (optionalCatchAll) {
+		return { type: "catchAll", name: optionalCatchAll[1], optional: true };
+	}
+	const catchAll = segment.match(/^\[\.\.\.([^\]]+)\]$/);
+	if (catchAll) {
+		return { type: "catchAll", name: catchAll[1], optional: false };
+	}
+	const optional = segment.match(/^\[([^\]]+)\?\]$/);
+	if (optional) {
+		return { type: "param", name: optional[1], optional: true };
+	}
+	return { type: "static", text: segment };
+}
+
+/**
+ * Splits static text into literal parts and `[name]` placeholders
+ * Example: "step-[page]" -> ["step-", "[page]", ""]
+ */
+function splitPlaceholders(text: string): string[] {
+	return text.split(/(\[[^\]]+\])/);
+}
+
+/**
+ * Escapes a literal for use in a RegExp
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
 /**
  * Parses a path template and extracts parameter names
  * Example: "/[id]/page/[page]" -> ["id", "page"]
+ * Example: "/[lang?]/docs/[...slug]" -> ["lang", "slug"]
  */
-function parsePathTemplate(template: string): string[] {
-	const matches = template.match(/\[([^\]]+)\]/g);
-	if (!matches) {
-		return [];
-	}
-	return matches.map((match) => match.slice(1, -1));
+export function parsePathTemplate(template: string): string[] {
+	return template.split("/").flatMap((segment) => {
+		const parsed = parseSegment(segment);
+		if (parsed.type !== "static") {
+			return [parsed.name];
+		}
+		const matches = parsed.text.match(/\[([^\]]+)\]/g);
+		return matches ? matches.map((match) => match.slice(1, -1)) : [];
+	});
+}
+
+/**
+ * Names of the optional params of a template (optional segments and catch-alls)
+ */
+function getOptionalParamNames(template: string): string[] {
+	return template.split("/").flatMap((segment) => {
+		const parsed = parseSegment(segment);
+		return parsed.type !== "static" && parsed.optional ? [parsed.name] : [];
+	});
 }
 
 /**
  * Builds a path from a template and parameter values
  * Example: template="/[id]/page/[page]", params={id: "abc", page: "pageA"}
  * Result: "/abc/page/pageA"
+ * Optional segments without a value are left out; required ones keep their placeholder.
  */
-function buildPath(template: string, params: Record<string, string>): string {
-	let path = template;
-	for (const [key, value] of Object.entries(params)) {
-		path = path.replace(`[${key}]`, encodeURIComponent(value));
+export function buildPath(
+	template: string,
+	params: Record<string, string>,
+): string {
+	const segments: string[] = [];
+	for (const segment of template.split("/")) {
+		const parsed = parseSegment(segment);
+		if (parsed.type === "static") {
+			segments.push(
+				parsed.text.replace(/\[([^\]]+)\]/g, (placeholder, name: string) =>
+					params[name] !== undefined
+						? encodeURIComponent(params[name])
+						: placeholder,
+				),
+			);
+			continue;
+		}
+		const value = params[parsed.name];
+		if (!value) {
+			if (!parsed.optional) {
+				segments.push(segment);
+			}
+			continue;
+		}
+		segments.push(
+			parsed.type === "catchAll"
+				? value.split("/").map(encodeURIComponent).join("/")
+				: encodeURIComponent(value),
+		);
 	}
-	return path;
+	return segments.join("/");
 }
 
 /**
- * Parses a URL path and extracts parameter values based on a template
- * Example: path="/en/wizard/abc/pageA", template="/wizard/[id]/[page]"
- * Result: { id: "abc", page: "pageA" }
+ * Converts a template to a RegExp matching it at the end of a path,
+ * with one capture group per param (in parsePathTemplate order)
  */
-function parsePath(path: string, template: string): Record<string, string> {
-	const params: Record<string, string> = {};
-	const paramNames = parsePathTemplate(template);
-
-	if (paramNames.length === 0) {
-		return params;
-	}
+function templateToRegExp(template: string): RegExp {
+	const pattern = template
+		.split("/")
+		.map((segment, index) => {
+			const separator = index === 0 ? "" : "\\/";
+			const parsed = parseSegment(segment);
+			if (parsed.type === "static") {
+				const text = splitPlaceholders(parsed.text)
+					.map((part, partIndex) =>
+						partIndex % 2 === 1 ? "([^/]+)" : escapeRegExp(part),
+					)
+					.join("");
+				return `${separator}${text}`;
+			}
+			const value = parsed.type === "catchAll" ? "(.+)" : "([^/]+)";
+			return parsed.optional
+				? `(?:${separator}${value})?`
+				: `${separator}${value}`;
+		})
+		.join("");
 
-	// Convert template to regex pattern
 	// Allow optional leading segments (like /en) before the template
-	const pattern = template
-		.replace(/\[([^\]]+)\]/g, "([^/]+)") // Replace [param] with capture group
-		.replace(/\//g, "\\/"); // Escape slashes
+	return new RegExp(`${pattern}$`);
+}
+
+/**
+ * Whether a value satisfies its constraint (if any)
+ */
+function satisfiesConstraint(
+	value: string,
+	constraint: RegExp | ((value: string) => boolean) | undefined,
+): boolean {
+	if (!constraint) {
+		return true;
+	}
+	if (typeof constraint === "function") {
+		return constraint(value);
+	}
+	return value.match(constraint)?.[0] === value;
+}
 
-	// Make the pattern match from the end or allow optional prefix
-	// This handles cases like /en/wizard/[id]/[page] matching /en/wizard/abc/pageA
-	const regex = new RegExp(`${pattern}$`);
-	const matches = path.match(regex);
+/**
+ * Matches a URL path against one or more templates, in priority order
+ * Returns the first template whose pattern and constraints match, or null
+ * Example: path="/en/wizard/abc/pageA", templates=["/wizard/[id]/[page]"]
+ * Result: { template: "/wizard/[id]/[page]", params: { id: "abc", page: "pageA" }, prefix: "/en" }
+ */
+export function matchPath(
+	path: string,
+	templates: string | string[],
+	constraints: PathConstraints = {},
+): PathMatch | null {
+	for (const template of Array.isArray(templates) ? templates : [templates]) {
+		const paramNames = parsePathTemplate(template);
+		if (paramNames.length === 0) {
+			continue;
+		}
+		const matches = path.match(templateToRegExp(template));
+		if (!matches) {
+			continue;
+		}
 
-	if (matches) {
 		// matches[0] is the full match, matches[1..] are the captured groups
+		const params: Record<string, string> = {};
 		for (let i = 0; i < paramNames.length; i++) {
 			const value = matches[i + 1];
 			if (value) {
-				params[paramNames[i]] = decodeURIComponent(value);
+				params[paramNames[i]] = value
+					.split("/")
+					.map(decodeURIComponent)
+					.join("/");
 			}
 		}
+		const satisfied = Object.entries(params).every(([name, value]) =>
+			satisfiesConstraint(value, constraints[name]),
+		);
+		if (satisfied) {
+			return {
+				template,
+				params,
+				prefix: path.slice(0, matches.index),
+			};
+		}
 	}
+	return null;
+}
 
-	return params;
+/**
+ * Parses a URL path and extracts parameter values based on a template
+ * Example: path="/en/wizard/abc/pageA", template="/wizard/[id]/[page]"
+ * Result: { id: "abc", page: "pageA" }
+ */
+export function parsePath(
+	path: string,
+	template: string,
+): Record<string, string> {
+	return matchPath(path, template)?.params ?? {};
+}
+
+/**
+ * Builds the path for updated params, keeping the current values of the
+ * other params and any segments before the template (like /en)
+ */
+export function updatePath(
+	currentPath: string,
+	template: string,
+	updates: Record<string, string>,
+): string {
+	const match = matchPath(currentPath, template);
+	const currentParams = match?.params ?? {};
+	const mergedParams = { ...currentParams, ...updates };
+
+	// A required path segment can't be empty: keep the current value instead
+	const optionalNames = getOptionalParamNames(template);
+	for (const [key, value] of Object.entries(currentParams)) {
+		if (!mergedParams[key] && !optionalNames.includes(key)) {
+			mergedParams[key] = value;
+		}
+	}
+
+	const newPath = buildPath(template, mergedParams);
+
+	// If the current path has segments before our template (like /en),
+	// preserve them in the new path
+	if (match) {
+		return match.prefix + newPath;
+	}
+	const templateStart = currentPath.indexOf(template.split("[")[0]);
+	if (templateStart > 0) {
+		return currentPath.slice(0, templateStart) + newPath;
+	}
+
+	return newPath;
 }
 
 /**
@@ -88,7 +336,7 @@ function parsePath(path: string, template: string): Record<string, string> {
  * This adapter uses URL path segments instead of query parameters
  *
  * @param config - Path configuration defining the URL structure
- * @returns A UrlParamsAdapter that works with path segments
+ * @returns A PathParamsAdapter that works with path segments
  *
  * @example
  * ```ts
@@ -96,14 +344,29 @@ function parsePath(path: string, template: string): Record<string, string> {
  *   template: "/[id]/page/[page]"
  * });
  * // URLs will be like: /abc123/page/pageA
+ *
+ * // Several URL shapes, first match wins
+ * const adapter = createPathParamsAdapter({
+ *   template: ["/[id]/page/[page]", "/[id]/[type]/[page]"],
+ *   constraints: { type: /basic|pro/ },
+ * });
+ * adapter.getMatchedTemplate(); // "/[id]/[type]/[page]" on /abc123/pro/pageA
+ *
+ * // Other params in the query string
+ * const adapter = createPathParamsAdapter({
+ *   template: "/[id]/page/[page]",
+ *   hybrid: true,
+ * });
+ * // URLs will be like: /abc123/page/pageA?utm_source=mail
  * ```
  */
-export function createPathParamsAdapter(config: PathConfig): UrlParamsAdapter {
-	const fullTemplate = config.basePath
-		? `${config.basePath}${config.template}`
-		: config.template;
-
-	const paramNames = parsePathTemplate(fullTemplate);
+export function createPathParamsAdapter(config: PathConfig): PathParamsAdapter {
+	const { hybrid = false } = config;
+	const templates = (
+		Array.isArray(config.template) ? config.template : [config.template]
+	).map((template) =>
+		config.basePath ? `${config.basePath}${template}` : template,
+	);
 
 	const getCurrentPath = (): string => {
 		if (typeof window === "undefined") {
@@ -112,40 +375,71 @@ export function createPathParamsAdapter(config: PathConfig): UrlParamsAdapter {
 		return window.location.pathname;
 	};
 
+	const getCurrentMatch = (): PathMatch | null =>
+		matchPath(getCurrentPath(), templates, config.constraints);
+
+	// In hybrid mode, path params take precedence over query params
 	const getCurrentParams = (): Record<string, string> => {
-		const path = getCurrentPath();
-		return parsePath(path, fullTemplate);
+		const pathParams = getCurrentMatch()?.params ?? {};
+		if (!hybrid || typeof window === "undefined") {
+			return pathParams;
+		}
+		return {
+			...Object.fromEntries(new URLSearchParams(window.location.search)),
+			...pathParams,
+		};
 	};
 
-	const buildFullPath = (params: Record<string, string>): string => {
-		// Get current params and merge with new ones
-		const currentParams = getCurrentParams();
-		const mergedParams = { ...currentParams, ...params };
-
-		// Ensure all required params are present
-		for (const paramName of paramNames) {
-			if (!mergedParams[paramName]) {
-				// Keep existing value if available
-				const currentValue = getCurrentParams()[paramName];
-				if (currentValue) {
-					mergedParams[paramName] = currentValue;
-				}
-			}
+	// The template to write: the matching one, otherwise the first one
+	// that has all the keys
+	const getTemplateFor = (keys: string[]): string =>
+		getCurrentMatch()?.template ??
+		templates.find((template) => {
+			const paramNames = parsePathTemplate(template);
+			return keys.every((key) => paramNames.includes(key));
+		}) ??
+		templates[0];
+
+	// Whether all keys are in the template; warns about the ones that aren't
+	const checkParams = (template: string, keys: string[]): boolean => {
+		if (hybrid) {
+			return true; // Other keys go to the query string
 		}
-
-		const newPath = buildPath(fullTemplate, mergedParams);
-
-		// If the current path has segments before our template (like /en),
-		// preserve them in the new path
-		const currentPath = getCurrentPath();
-		const templateStart = currentPath.indexOf(fullTemplate.split("[")[0]);
-		if (templateStart > 0) {
-			// There's a prefix before our template, preserve it
-			const prefix = currentPath.slice(0, templateStart);
-			return prefix + newPath;
+		const paramNames = parsePathTemplate(template);
+		const unknown = keys.filter((key) => !paramNames.includes(key));
+		for (const key of unknown) {
+			console.warn(
+				`Parameter "${key}" is not defined in path template: ${template}`,
+			);
 		}
+		return unknown.length === 0;
+	};
 
-		return newPath;
+	// Builds the URL for updated params, keeping the query string and hash.
+	// `replaceAll` drops the other query params (hybrid mode).
+	const buildFullPath = (
+		template: string,
+		params: Record<string, string>,
+		replaceAll = false,
+	): string => {
+		const paramNames = parsePathTemplate(template);
+		const pathUpdates: Record<string, string> = {};
+		const search = new URLSearchParams(
+			hybrid && replaceAll ? "" : window.location.search,
+		);
+		for (const [key, value] of Object.entries(params)) {
+			if (paramNames.includes(key)) {
+				pathUpdates[key] = value;
+			} else if (hybrid) {
+				search.set(key, value);
+			}
+		}
+		const path =
+			Object.keys(pathUpdates).length > 0
+				? updatePath(getCurrentPath(), template, pathUpdates)
+				: getCurrentPath();
+		const query = search.toString();
+		return `${path}${query ? `?${query}` : ""}${window.location.hash}`;
 	};
 
 	return {
@@ -160,15 +454,13 @@ export function createPathParamsAdapter(config: PathConfig): UrlParamsAdapter {
 			}
 
 			// Only update if this param is in the template
-			if (!paramNames.includes(key)) {
-				console.warn(
-					`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-				);
+			const template = getTemplateFor([key]);
+			if (!checkParams(template, [key])) {
 				return;
 			}
 
-			const newPath = buildFullPath({ [key]: value });
-			window.history.pushState({}, "", newPath);
+			const newPath = buildFullPath(template, { [key]: value });
+			updateBrowserUrl(newPath, "push");
 		},
 
 		replaceParam: (key: string, value: string): void => {
@@ -177,15 +469,13 @@ export function createPathParamsAdapter(config: PathConfig): UrlParamsAdapter {
 			}
 
 			// Only update if this param is in the template
-			if (!paramNames.includes(key)) {
-				console.warn(
-					`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-				);
+			const template = getTemplateFor([key]);
+			if (!checkParams(template, [key])) {
 				return;
 			}
 
-			const newPath = buildFullPath({ [key]: value });
-			window.history.replaceState({}, "", newPath);
+			const newPath = buildFullPath(template, { [key]: value });
+			updateBrowserUrl(newPath, "replace");
 		},
 
 		getAllParams: (): Record<string, string> => {
@@ -198,28 +488,33 @@ export function createPathParamsAdapter(config: PathConfig): UrlParamsAdapter {
 			}
 
 			// Validate all params are in template
-			for (const key of Object.keys(params)) {
-				if (!paramNames.includes(key)) {
-					console.warn(
-						`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-					);
-				}
-			}
+			const template = getTemplateFor(Object.keys(params));
+			checkParams(template, Object.keys(params));
 
-			const newPath = buildFullPath(params);
-			window.history.replaceState({}, "", newPath);
+			const newPath = buildFullPath(template, params, true);
+			updateBrowserUrl(newPath, "replace");
 		},
+
+		getMatchedTemplate: (): string | null => {
+			return getCurrentMatch()?.template ?? null;
+		},
+
+		subscribe: subscribeToBrowserUrl,
+
+		back: goBackInBrowser,
 	};
 }
 
 /**
  * Framework-agnostic path params adapter that reads initial params from props
  * Works with any framework that provides route params (Next.js, Remix, etc.)
- * Uses browser History API for navigation, making it framework-agnostic
+ * Uses browser History API for navigation, making it framework-agnostic.
+ * The framework's router doesn't see these navigations: with the Next.js
+ * App Router, use useNextUrlParamsAdapter instead.
  *
  * @param pathParams - Route params from your framework (can be a Promise in Next.js 15+)
  * @param config - Path configuration
- * @returns A UrlParamsAdapter that works with path segments
+ * @returns A PathParamsAdapter that works with path segments
  *
  * @example
  * ```tsx
@@ -248,95 +543,8 @@ export function createPathParamsAdapterFromProps(
 		| Record<string, string | string[]>
 		| Promise<Record<string, string | string[]>>,
 	config: PathConfig,
-): UrlParamsAdapter {
-	const fullTemplate = config.basePath
-		? `${config.basePath}${config.template}`
-		: config.template;
-
-	const paramNames = parsePathTemplate(fullTemplate);
-
+): PathParamsAdapter {
 	// Read params from the URL path directly (framework-agnostic)
 	// The URL is always the source of truth, even on initial render
-	const getCurrentPath = (): string => {
-		if (typeof window === "undefined") {
-			return "";
-		}
-		return window.location.pathname;
-	};
-
-	const getCurrentParamsFromUrl = (): Record<string, string> => {
-		const path = getCurrentPath();
-		return parsePath(path, fullTemplate);
-	};
-
-	// Always read from URL - the URL is the source of truth
-	const getParams = (): Record<string, string> => {
-		return getCurrentParamsFromUrl();
-	};
-
-	const buildFullPath = (params: Record<string, string>): string => {
-		const current = getParams();
-		const mergedParams = { ...current, ...params };
-		return buildPath(fullTemplate, mergedParams);
-	};
-
-	return {
-		getParam: (key: string): string | null => {
-			const params = getParams();
-			return params[key] || null;
-		},
-
-		setParam: (key: string, value: string): void => {
-			if (typeof window === "undefined") {
-				return;
-			}
-
-			if (!paramNames.includes(key)) {
-				console.warn(
-					`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-				);
-				return;
-			}
-
-			const newPath = buildFullPath({ [key]: value });
-			window.history.pushState({}, "", newPath);
-		},
-
-		replaceParam: (key: string, value: string): void => {
-			if (typeof window === "undefined") {
-				return;
-			}
-
-			if (!paramNames.includes(key)) {
-				console.warn(
-					`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-				);
-				return;
-			}
-
-			const newPath = buildFullPath({ [key]: value });
-			window.history.replaceState({}, "", newPath);
-		},
-
-		getAllParams: (): Record<string, string> => {
-			return { ...getParams() };
-		},
-
-		replaceParams: (params: Record<string, string>): void => {
-			if (typeof window === "undefined") {
-				return;
-			}
-
-			for (const key of Object.keys(params)) {
-				if (!paramNames.includes(key)) {
-					console.warn(
-						`Parameter "${key}" is not defined in path template: ${fullTemplate}`,
-					);
-				}
-			}
-
-			const newPath = buildFullPath(params);
-			window.history.replaceState({}, "", newPath);
-		},
-	};
+	return createPathParamsAdapter(config);
 }
@@ -0,0 +1,203 @@
+"use client";
+
+import {
+	parsePath,
+	parsePathTemplate,
+	updatePath,
+} from "@/flow/pathParamHelpers";
+import type { UrlParamsAdapter } from "@/flow/types";
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * The parts of React Router's location the adapter reads (`useLocation()`)
+ */
+export type RouterLocation = {
+	pathname: string;
+	search: string;
+	hash?: string;
+};
+
+/**
+ * React Router's navigate function (`useNavigate()`)
+ */
+export type RouterNavigate = {
+	(to: string, options?: { replace?: boolean }): void;
+	(delta: number): void;
+};
+
+/**
+ * Options for useReactRouterUrlParamsAdapter
+ */
+export type ReactRouterUrlParamsOptions = {
+	/**
+	 * From `useNavigate()`
+	 */
+	navigate: RouterNavigate;
+
+	/**
+	 * From `useLocation()`
+	 */
+	location: RouterLocation;
+
+	/**
+	 * Path template with named segments, e.g. "/[id]/page/[page]".
+	 * Omit to keep the params in the query string.
+	 */
+	template?: string;
+
+	/**
+	 * Base path prepended to the template (path mode only)
+	 */
+	basePath?: string;
+};
+
+/**
+ * Gets the params of a location: path segments when a template is given,
+ * otherwise the query string
+ */
+function getLocationParams(
+	location: RouterLocation,
+	template: string | undefined,
+): Record<string, string> {
+	if (template) {
+		return parsePath(location.pathname, template);
+	}
+	return Object.fromEntries(new URLSearchParams(location.search));
+}
+
+/**
+ * Builds the location for updated params. `replaceAll` drops the other
+ * query params (path segments always keep their current values).
+ */
+function getUpdatedLocation(
+	location: RouterLocation,
+	template: string | undefined,
+	updates: Record<string, string>,
+	replaceAll = false,
+): RouterLocation {
+	if (template) {
+		return {
+			...location,
+			pathname: updatePath(location.pathname, template, updates),
+		};
+	}
+	const search = new URLSearchParams(replaceAll ? "" : location.search);
+	for (const [key, value] of Object.entries(updates)) {
+		search.set(key, value);
+	}
+	const query = search.toString();
+	return { ...location, search: query ? `?${query}` : "" };
+}
+
+/**
+ * URL params adapter that navigates through React Router, so `useLocation()`
+ * consumers stay in sync with the flow. Supports query params (default) and
+ * path params (`template`, like createPathParamsAdapter).
+ *
+ * The adapter is stable across renders; changes made by the router (links,
+ * back/forward) reach the flow through `subscribe`.
+ *
+ * @example
+ * ```tsx
+ * function FlowRoute() {
+ *   const adapter = useReactRouterUrlParamsAdapter({
+ *     navigate: useNavigate(),
+ *     location: useLocation(),
+ *     template: "/[id]/page/[page]",
+ *     basePath: "/onboarding",
+ *   });
+ *   return <Flow graph={graph} config={{ urlParamsAdapter: adapter }} />;
+ * }
+ * ```
+ */
+export function useReactRouterUrlParamsAdapter(
+	options: ReactRouterUrlParamsOptions,
+): UrlParamsAdapter {
+	const { navigate, location, basePath } = options;
+	const template =
+		options.template && basePath
+			? `${basePath}${options.template}`
+			: options.template;
+
+	// Latest values for the stable adapter. `locationRef` also holds locations
+	// navigated to but not rendered by the router yet.
+	const navigateRef = useRef(navigate);
+	navigateRef.current = navigate;
+	const locationRef = useRef(location);
+	const templateRef = useRef(template);
+	templateRef.current = template;
+	const listenersRef = useRef(new Set<() => void>());
+
+	const { pathname, search, hash } = location;
+	useEffect(() => {
+		locationRef.current = { pathname, search, hash };
+		for (const listener of [...listenersRef.current]) {
+			listener();
+		}
+	}, [pathname, search, hash]);
+
+	const [adapter] = useState((): UrlParamsAdapter => {
+		const getParams = () =>
+			getLocationParams(locationRef.current, templateRef.current);
+
+		const warnUnknownParams = (keys: string[]) => {
+			const template = templateRef.current;
+			if (!template) {
+				return true;
+			}
+			const paramNames = parsePathTemplate(template);
+			const unknown = keys.filter((key) => !paramNames.includes(key));
+			for (const key of unknown) {
+				console.warn(
+					`Parameter "${key}" is not defined in path template: ${template}`,
+				);
+			}
+			return unknown.length === 0;
+		};
+
+		const go = (
+			updates: Record<string, string>,
+			replace: boolean,
+			replaceAll = false,
+		) => {
+			const next = getUpdatedLocation(
+				locationRef.current,
+				templateRef.current,
+				updates,
+				replaceAll,
+			);
+			locationRef.current = next;
+			navigateRef.current(`${next.pathname}${next.search}${next.hash ?? ""}`, {
+				replace,
+			});
+		};
+
+		return {
+			getParam: (key) => getParams()[key] ?? null,
+			setParam: (key, value) => {
+				if (warnUnknownParams([key])) {
+					go({ [key]: value }, false);
+				}
+			},
+			replaceParam: (key, value) => {
+				if (warnUnknownParams([key])) {
+					go({ [key]: value }, true);
+				}
+			},
+			getAllParams: () => ({ ...getParams() }),
+			replaceParams: (params) => {
+				warnUnknownParams(Object.keys(params));
+				go(params, true, true);
+			},
+			subscribe: (listener) => {
+				listenersRef.current.add(listener);
+				return () => {
+					listenersRef.current.delete(listener);
+				};
+			},
+			back: () => navigateRef.current(-1),
+		};
+	});
+
+	return adapter;
+}
@@ -0,0 +1,340 @@
+import type { AsyncFlowStateStorage, FlowStateByPage } from "@/flow/types";
+
+/**
+ * A version conflict between local state and the copy stored on the server.
+ * Happens when another device or tab saved the same flow UUID in the meantime.
+ */
+export type FlowStateConflict = {
+	/**
+	 * Flow UUID the conflict is for
+	 */
+	uuid: string;
+
+	/**
+	 * State this client tried to save
+	 */
+	local: FlowStateByPage;
+
+	/**
+	 * State currently stored on the server
+	 */
+	remote: FlowStateByPage;
+
+	/**
+	 * Server version of the remote state
+	 */
+	remoteVersion: number;
+};
+
+/**
+ * Options for RemoteStateAdapter
+ */
+export type RemoteStateAdapterOptions = {
+	/**
+	 * Endpoint for a flow UUID. A string is used as a base URL
+	 * (`${endpoint}/${uuid}`); a function returns the full URL.
+	 */
+	endpoint: string | ((uuid: string) => string);
+
+	/**
+	 * Fetch implementation (defaults to global fetch). Inject for tests or auth.
+	 */
+	fetch?: typeof fetch;
+
+	/**
+	 * Extra request headers (e.g. Authorization), static or per request
+	 */
+	headers?: Record<string, string> | (() => Record<string, string>);
+
+	/**
+	 * Called when the server rejects a save because its version is newer.
+	 * Return the state to keep; it is saved against the server's version.
+	 * Defaults to keeping the remote state.
+	 */
+	onConflict?: (
+		conflict: FlowStateConflict,
+	) => FlowStateByPage | Promise<FlowStateByPage>;
+
+	/**
+	 * How many times a save resolved through onConflict is retried when the
+	 * server keeps answering 409 (defaults to 3). Saving fails after that.
+	 */
+	maxConflictRetries?: number;
+
+	/**
+	 * Called when a request fails for a reason other than being offline
+	 */
+	onError?: (error: Error, uuid: string) => void;
+};
+
+/**
+ * Default number of retries after a conflict
+ */
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * Body returned by the server for GET and on a 409 conflict
+ */
+type RemoteRecord = {
+	version: number;
+	state: FlowStateByPage;
+};
+
+/**
+ * Checks whether the browser reports being offline
+ */
+function isOffline(): boolean {
+	return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Async persistence adapter that syncs flow state to an HTTP endpoint keyed
+ * by flow UUID, so a flow started on one device can be resumed on another.
+ * Wrap it in AsyncStateManager to use it as a Flow stateManager.
+ *
+ * Expected server contract:
+ * - `GET {url}` → `200 { version, state }` or `404`
+ * - `PUT {url}` with `{ version, state }` → `200 { version }`, or
+ *   `409 { version, state }` when `version` is not the latest
+ * - `DELETE {url}` → `2xx` or `404`
+ *
+ * Saves made while offline are queued (latest state per UUID) and sent when
+ * the browser comes back online or on the next successful request. Saves
+ * that fail when replayed stay queued for the next attempt.
+ *
+ * @example
+ * ```ts
+ * const stateManager = new AsyncStateManager(
+ *   new RemoteStateAdapter({
+ *     endpoint: "/api/flows",
+ *     onConflict: ({ local, remote }) => ({ ...remote, ...local }),
+ *   }),
+ * );
+ * ```
+ */
+export class RemoteStateAdapter implements AsyncFlowStateStorage {
+	private options: RemoteStateAdapterOptions;
+	private versions = new Map<string, number>();
+	private queue = new Map<string, FlowStateByPage>();
+	private listeningForOnline = false;
+
+	constructor(options: RemoteStateAdapterOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Number of saves waiting to be sent
+	 */
+	get pendingCount(): number {
+		return this.queue.size;
+	}
+
+	/**
+	 * Sends queued offline saves, stopping at the first one that fails.
+	 * Saves that still fail stay queued; errors go to onError, never thrown.
+	 */
+	async flushQueue(): Promise<void> {
+		const queued = [...this.queue.entries()];
+		for (const [uuid, state] of queued) {
+			// A newer save may have replaced the entry while we were sending
+			if (this.queue.get(uuid) !== state) continue;
+			this.queue.delete(uuid);
+			try {
+				await this.put(uuid, state, 0);
+			} catch {
+				// Keep the write for the next flush, unless a newer one was queued
+				if (!this.queue.has(uuid)) {
+					this.queue.set(uuid, state);
+				}
+				return;
+			}
+			// Offline again: put queued it back
+			if (this.queue.get(uuid) === state) {
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Builds the request URL for a flow UUID
+	 */
+	private getUrl(uuid: string): string {
+		const { endpoint } = this.options;
+		if (typeof endpoint === "function") {
+			return endpoint(uuid);
+		}
+		return `${endpoint.replace(/\/$/, "")}/${encodeURIComponent(uuid)}`;
+	}
+
+	/**
+	 * Sends a request with JSON headers
+	 */
+	private request(uuid: string, init: RequestInit): Promise<Response> {
+		const fetchImpl = this.options.fetch ?? fetch;
+		const extraHeaders =
+			typeof this.options.headers === "function"
+				? this.options.headers()
+				: this.options.headers;
+
+		return fetchImpl(this.getUrl(uuid), {
+			...init,
+			headers: {
+				Accept: "application/json",
+				...(init.body ? { "Content-Type": "application/json" } : {}),
+				...extraHeaders,
+			},
+		});
+	}
+
+	/**
+	 * Reports a failed request and returns the error
+	 */
+	private fail(uuid: string, message: string): Error {
+		const error = new Error(message);
+		this.options.onError?.(error, uuid);
+		return error;
+	}
+
+	/**
+	 * Queues a save to retry once the browser is back online
+	 */
+	private enqueue(uuid: string, state: FlowStateByPage): void {
+		this.queue.set(uuid, state);
+
+		if (!this.listeningForOnline && typeof window !== "undefined") {
+			this.listeningForOnline = true;
+			window.addEventListener("online", () => {
+				void this.flushQueue();
+			});
+		}
+	}
+
+	async load(uuid: string): Promise<FlowStateByPage | null> {
+		// Local edits made offline are newer than anything on the server
+		const queued = this.queue.get(uuid);
+		if (queued) {
+			return queued;
+		}
+
+		const response = await this.request(uuid, { method: "GET" });
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw this.fail(
+				uuid,
+				`Failed to load state for UUID "${uuid}": ${response.status}`,
+			);
+		}
+
+		const record = (await response.json()) as RemoteRecord;
+		this.versions.set(uuid, record.version);
+		return record.state;
+	}
+
+	async save(uuid: string, state: FlowStateByPage): Promise<void> {
+		await this.put(uuid, state, 0);
+	}
+
+	/**
+	 * Saves state and resolves with the state kept after a conflict, or null
+	 * when the server stored what was passed
+	 */
+	saveMerged(
+		uuid: string,
+		state: FlowStateByPage,
+	): Promise<FlowStateByPage | null> {
+		return this.put(uuid, state, 0);
+	}
+
+	/**
+	 * Saves state, retrying after a resolved conflict until the retry limit
+	 */
+	private async put(
+		uuid: string,
+		state: FlowStateByPage,
+		conflictRetries: number,
+	): Promise<FlowStateByPage | null> {
+		if (isOffline()) {
+			this.enqueue(uuid, state);
+			return null;
+		}
+
+		let response: Response;
+		try {
+			response = await this.request(uuid, {
+				method: "PUT",
+				body: JSON.stringify({
+					version: this.versions.get(uuid) ?? null,
+					state,
+				}),
+			});
+		} catch {
+			// Network failure: keep the write and retry later
+			this.enqueue(uuid, state);
+			return null;
+		}
+
+		if (response.status === 409) {
+			const remote = (await response.json()) as RemoteRecord;
+			this.versions.set(uuid, remote.version);
+
+			const conflict: FlowStateConflict = {
+				uuid,
+				local: state,
+				remote: remote.state,
+				remoteVersion: remote.version,
+			};
+
+			if (!this.options.onConflict) {
+				console.warn(
+					`Version conflict for UUID "${uuid}": keeping remote state (version ${remote.version})`,
+				);
+				return remote.state;
+			}
+
+			const maxRetries =
+				this.options.maxConflictRetries ?? DEFAULT_MAX_CONFLICT_RETRIES;
+			if (conflictRetries >= maxRetries) {
+				throw this.fail(
+					uuid,
+					`Failed to save state for UUID "${uuid}": still conflicting after ${maxRetries} retries`,
+				);
+			}
+
+			const resolved = await this.options.onConflict(conflict);
+			const persisted = await this.put(uuid, resolved, conflictRetries + 1);
+			return persisted ?? resolved;
+		}
+
+		if (!response.ok) {
+			throw this.fail(
+				uuid,
+				`Failed to save state for UUID "${uuid}": ${response.status}`,
+			);
+		}
+
+		const { version } = (await response.json()) as { version: number };
+		this.versions.set(uuid, version);
+
+		// Connection is back: send anything queued for other flows
+		if (this.queue.size > 0) {
+			void this.flushQueue();
+		}
+
+		return null;
+	}
+
+	async remove(uuid: string): Promise<void> {
+		this.queue.delete(uuid);
+		this.versions.delete(uuid);
+
+		const response = await this.request(uuid, { method: "DELETE" });
+		if (!response.ok && response.status !== 404) {
+			throw this.fail(
+				uuid,
+				`Failed to remove state for UUID "${uuid}": ${response.status}`,
+			);
+		}
+	}
+}
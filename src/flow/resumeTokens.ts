@@ -0,0 +1,202 @@
+import type { FlowStateByPage, MaybePromise } from "@/flow/types";
+
+/**
+ * What a resume token carries: the state of every page and where to resume
+ */
+export type ResumeTokenPayload = {
+	/**
+	 * Page to resume on
+	 */
+	page: string;
+
+	/**
+	 * State of all pages, keyed by page
+	 */
+	state: FlowStateByPage;
+
+	/**
+	 * Visited pages, for going back after resuming
+	 */
+	visitedPages?: string[];
+
+	/**
+	 * Flow definition version the state belongs to (FlowConfig.version)
+	 */
+	version?: string;
+};
+
+/**
+ * Options for encoding and decoding resume tokens
+ */
+export type ResumeTokenOptions = {
+	/**
+	 * Signs the encoded payload, e.g. an HMAC computed by your server. In the
+	 * browser, call the server: a signing key shipped to the client lets anyone
+	 * mint tokens. The signature is appended to the token, and tokens without a
+	 * matching signature are rejected.
+	 */
+	sign?: (data: string) => MaybePromise<string>;
+};
+
+/**
+ * Resume links for Flow (FlowConfig.resume)
+ */
+export type ResumeConfig = ResumeTokenOptions & {
+	/**
+	 * URL param holding the token (defaults to "resume")
+	 */
+	paramName?: string;
+};
+
+/**
+ * Token formats: deflate-compressed JSON, or plain JSON where
+ * CompressionStream isn't available
+ */
+const COMPRESSED_FORMAT = "z";
+const PLAIN_FORMAT = "j";
+
+/**
+ * Separates the encoded payload from its signature
+ */
+const SIGNATURE_SEPARATOR = ".";
+
+/**
+ * Runs bytes through a compression or decompression stream
+ */
+async function transform(
+	bytes: Uint8Array<ArrayBuffer>,
+	stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+	const writer = stream.writable.getWriter();
+	// Errors surface through the readable side
+	writer.write(bytes).catch(() => {});
+	writer.close().catch(() => {});
+	return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Decodes URL-safe base64 (with or without padding)
+ */
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Compares signatures in constant time
+ */
+function isSameSignature(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return difference === 0;
+}
+
+/**
+ * Whether a decoded value is a non-array object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a decoded value has the shape of a resume token payload: every page
+ * state is an object and every visited page a string
+ */
+function isResumeTokenPayload(value: unknown): value is ResumeTokenPayload {
+	if (!isPlainObject(value)) {
+		return false;
+	}
+	const { page, state, visitedPages } = value;
+	return (
+		typeof page === "string" &&
+		isPlainObject(state) &&
+		Object.values(state).every(isPlainObject) &&
+		(visitedPages === undefined ||
+			(Array.isArray(visitedPages) &&
+				visitedPages.every((visited) => typeof visited === "string")))
+	);
+}
+
+/**
+ * Encodes flow state into a URL-safe resume token: compressed JSON in base64url,
+ * followed by the signature when `sign` is given
+ *
+ * @example
+ * ```ts
+ * const token = await encodeResumeToken({ page: "payment", state });
+ * const link = `${location.origin}/checkout?resume=${token}`;
+ * ```
+ */
+export async function encodeResumeToken(
+	payload: ResumeTokenPayload,
+	options: ResumeTokenOptions = {},
+): Promise<string> {
+	const json = new TextEncoder().encode(JSON.stringify(payload));
+	const data =
+		typeof CompressionStream === "undefined"
+			? PLAIN_FORMAT + toBase64Url(json)
+			: COMPRESSED_FORMAT +
+				toBase64Url(
+					await transform(json, new CompressionStream("deflate-raw")),
+				);
+
+	if (!options.sign) {
+		return data;
+	}
+	return `${data}${SIGNATURE_SEPARATOR}${await options.sign(data)}`;
+}
+
+/**
+ * Decodes a resume token. Returns null when the token is malformed or,
+ * with `sign`, when its signature is missing or doesn't match.
+ */
+export async function decodeResumeToken(
+	token: string,
+	options: ResumeTokenOptions = {},
+): Promise<ResumeTokenPayload | null> {
+	const separatorIndex = token.indexOf(SIGNATURE_SEPARATOR);
+	const data = separatorIndex >= 0 ? token.slice(0, separatorIndex) : token;
+
+	if (options.sign) {
+		if (separatorIndex < 0) {
+			return null;
+		}
+		const signature = token.slice(separatorIndex + 1);
+		if (!isSameSignature(signature, await options.sign(data))) {
+			return null;
+		}
+	}
+
+	try {
+		const format = data.charAt(0);
+		let json = fromBase64Url(data.slice(1));
+		if (format === COMPRESSED_FORMAT) {
+			json = await transform(json, new DecompressionStream("deflate-raw"));
+		} else if (format !== PLAIN_FORMAT) {
+			return null;
+		}
+		const payload: unknown = JSON.parse(new TextDecoder().decode(json));
+		return isResumeTokenPayload(payload) ? payload : null;
+	} catch {
+		return null;
+	}
+}
@@ -4,11 +4,55 @@
 export type ComponentLoader = () => Promise<{ default: React.ComponentType }>;
 
 /**
- * Next page resolver - can be a string or a function
+ * A value or a Promise of it
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Next page resolver - can be a string or a function.
+ * The function may return a Promise (e.g. an eligibility check); Flow shows a
+ * pending state while it resolves.
  */
 export type NextPageResolver<TState = FlowStateByPage> =
 	| string
-	| ((state: TState) => string | null);
+	| ((state: TState) => MaybePromise<string | null>);
+
+/**
+ * How a navigation was triggered
+ * - "forward": goToNext
+ * - "back": goToPrevious, or the URL moving to a visited page or the page's previousPageFallback
+ * - "jump": goToPage, skipToPage and other URL changes
+ */
+export type NavigationDirection = "forward" | "back" | "jump";
+
+/**
+ * Decision of a navigation guard
+ * - `true`: allow
+ * - `false`: cancel (browser back/forward is undone)
+ * - `{ redirect }`: go to another page instead
+ * - `{ confirm }`: ask the user (FlowConfig.confirmNavigation) and allow if they accept
+ */
+export type NavigationGuardResult<TPage extends string = string> =
+	| boolean
+	| { redirect: TPage }
+	| { confirm: string };
+
+/**
+ * A navigation about to happen, as seen by the flow-level guard
+ */
+export type FlowNavigation = {
+	from: string | null;
+	to: string;
+	direction: NavigationDirection;
+	state: FlowStateByPage;
+};
+
+/**
+ * Field-level validation errors for a page, keyed by state key
+ */
+export type FlowValidationErrors<TField extends string = string> = Partial<
+	Record<TField, string>
+>;
 
 /**
  * Flow node definition
@@ -27,6 +71,14 @@ export type FlowNode<TState = FlowStateByPage> = {
 	 */
 	nextPage?: NextPageResolver<TState>;
 
+	/**
+	 * Pages a function `nextPage` can return.
+	 * Lets validateGraph check branch targets and getPagesInOrder see branch-only
+	 * pages. In development, resolveNextPage warns when the resolver returns a
+	 * page outside this list.
+	 */
+	branches?: string[];
+
 	/**
 	 * Optional previous page identifier. Used when resolving previous non-skipped
 	 * pages (e.g. skip chain). Back navigation uses browser
@@ -39,8 +91,43 @@ export type FlowNode<TState = FlowStateByPage> = {
 	 * Returns true if the step should be skipped based on current state
 	 * Skipped steps are automatically bypassed and removed from browser history
 	 * The state parameter is typed as TState
+	 * May return a Promise; Flow shows a pending state while it resolves
+	 */
+	shouldSkip?: (state: TState) => MaybePromise<boolean>;
+
+	/**
+	 * Optional guard run before navigating to this page (sync or async).
+	 * Not run for automatic skips or the initial page load.
 	 */
-	shouldSkip?: (state: TState) => boolean;
+	canEnter?: (
+		state: TState,
+		direction: NavigationDirection,
+	) => MaybePromise<NavigationGuardResult>;
+
+	/**
+	 * Optional guard run before navigating away from this page (sync or async),
+	 * e.g. to confirm discarding unsaved input.
+	 */
+	canLeave?: (
+		state: TState,
+		direction: NavigationDirection,
+	) => MaybePromise<NavigationGuardResult>;
+
+	/**
+	 * Optional validation of this page's state. Return field-level errors
+	 * (empty object, null or undefined when valid). goToNext doesn't advance
+	 * while there are errors; useFlow() exposes them as `errors`.
+	 */
+	validate?: (
+		pageState: FlowState,
+		allState: TState,
+	) => FlowValidationErrors | null | undefined;
+
+	/**
+	 * Marks a page as an intended end of the flow.
+	 * validateGraph reports pages without a next page that are not terminal.
+	 */
+	terminal?: boolean;
 };
 
 /**
@@ -70,6 +157,280 @@ export type FlowGraph = {
 	entryPoint?: string;
 };
 
+/**
+ * Why simulateFlow could not reach the end of the flow
+ * - "cycle": a page would be visited again, so navigation loops forever
+ * - "missing-node": a page resolved to a page that doesn't exist
+ * - "null-resolver": a function `nextPage` returned null on a non-terminal page
+ * - "async-resolver": a `nextPage` or `shouldSkip` returned a Promise, which the
+ *   sync helpers can't wait for (use simulateFlowAsync / enumerateFlowPathsAsync)
+ */
+export type FlowSimulationStuckReason =
+	| "cycle"
+	| "missing-node"
+	| "null-resolver"
+	| "async-resolver";
+
+/**
+ * Result of simulateFlow
+ */
+export type FlowSimulationResult = {
+	/**
+	 * Pages the user sees, in order
+	 */
+	pages: string[];
+
+	/**
+	 * Pages passed over on the way, in order.
+	 * The reason is always "shouldSkip" (the page's skip condition returned true).
+	 */
+	skipped: { page: string; reason: "shouldSkip" }[];
+
+	/**
+	 * "completed" when a page without a next page (or a terminal page) was reached
+	 */
+	status: "completed" | "stuck";
+
+	/**
+	 * Last page shown when completed, or the page where navigation got stuck
+	 * (null if the flow has no usable entry point)
+	 */
+	endPage: string | null;
+
+	/**
+	 * Why navigation got stuck (only when status is "stuck")
+	 */
+	stuckReason?: FlowSimulationStuckReason;
+
+	/**
+	 * Page that doesn't exist (only for "missing-node")
+	 */
+	missingPage?: string;
+};
+
+/**
+ * Kind of problem found by validateGraph
+ */
+export type GraphDiagnosticCode =
+	| "missing-entry-point"
+	| "missing-next-page"
+	| "missing-previous-page"
+	| "missing-branch-target"
+	| "missing-component-loader"
+	| "unreachable-node"
+	| "dead-end"
+	| "cycle-without-exit"
+	| "inconsistent-previous-page";
+
+/**
+ * A problem found by validateGraph.
+ * Errors break navigation or rendering; warnings point at likely mistakes.
+ */
+export type GraphDiagnostic = {
+	code: GraphDiagnosticCode;
+	severity: "error" | "warning";
+
+	/**
+	 * Page the problem is on (omitted for graph-level problems)
+	 */
+	node?: string;
+
+	/**
+	 * Human-readable description
+	 */
+	message: string;
+};
+
+/**
+ * Result of validateGraph
+ */
+export type GraphValidationResult = {
+	/**
+	 * True when no error-severity diagnostics were found
+	 */
+	valid: boolean;
+
+	/**
+	 * Messages of error-severity diagnostics
+	 */
+	errors: string[];
+
+	/**
+	 * All errors and warnings
+	 */
+	diagnostics: GraphDiagnostic[];
+};
+
+/**
+ * Lifecycle metadata stored alongside a flow's page entries
+ */
+export type FlowMetadata = {
+	/**
+	 * When the flow was started (ms since epoch)
+	 */
+	createdAt: number;
+
+	/**
+	 * Last user activity: state update or navigation (ms since epoch)
+	 */
+	updatedAt: number;
+
+	/**
+	 * When completeFlow() was called (ms since epoch)
+	 */
+	completedAt?: number;
+
+	/**
+	 * FlowConfig.version the flow was started with
+	 */
+	version?: string;
+
+	/**
+	 * Pages visited, oldest first (used by goToPrevious)
+	 */
+	visitedPages?: string[];
+
+	/**
+	 * Page ids of the graph the flow was started with (see getGraphKey), so a
+	 * Flow only sweeps flows of its own graph
+	 */
+	graphKey?: string;
+};
+
+/**
+ * Why a flow is shown as expired
+ * - "missing": no stored state for the UUID (e.g. different tab or cleared storage)
+ * - "timeout": the flow exceeded its max age or idle timeout
+ * - "completed": completeFlow() was already called for the UUID
+ * - "version-mismatch": the flow was started with a different FlowConfig.version
+ */
+export type ExpiredReason =
+	| "missing"
+	| "timeout"
+	| "completed"
+	| "version-mismatch";
+
+/**
+ * Storage backend interface for flow state.
+ * Implementations persist page-scoped state per flow UUID.
+ * The default is session storage (WizardStateManager); in-memory and
+ * localStorage implementations are also provided.
+ */
+export type FlowStateStorage = {
+	/**
+	 * Pre-registers an empty entry for every page in the graph.
+	 * Called when a new flow starts so hasState() returns true afterwards.
+	 */
+	preRegisterState: (graph: FlowGraph, uuid: string) => void;
+
+	/**
+	 * Gets state for a specific page
+	 */
+	getState: (uuid: string, page: string) => FlowState;
+
+	/**
+	 * Sets a single state value for a page
+	 */
+	setState: (uuid: string, page: string, key: string, value: unknown) => void;
+
+	/**
+	 * Sets multiple state values for a page at once
+	 */
+	setStateBatch: (
+		uuid: string,
+		page: string,
+		updates: Record<string, unknown>,
+	) => void;
+
+	/**
+	 * Gets accumulated state from all pages, keyed by page
+	 */
+	getAllState: (graph: FlowGraph, uuid: string) => FlowStateByPage;
+
+	/**
+	 * Checks if any state exists for a flow UUID
+	 */
+	hasState: (uuid: string) => boolean;
+
+	/**
+	 * Clears all state for a flow UUID
+	 */
+	clearState: (uuid: string) => void;
+
+	/**
+	 * Clears state for a single page within a flow UUID
+	 */
+	clearPageState: (uuid: string, page: string) => void;
+
+	/**
+	 * Gets lifecycle metadata (timestamps, version) stored next to the page entries
+	 */
+	getMetadata: (uuid: string) => FlowMetadata | null;
+
+	/**
+	 * Sets lifecycle metadata stored next to the page entries
+	 */
+	setMetadata: (uuid: string, metadata: FlowMetadata) => void;
+
+	/**
+	 * Optional async loader for backends that cannot read synchronously.
+	 * Flow awaits it during initial validation, before checking hasState().
+	 */
+	hydrate?: (uuid: string) => Promise<void>;
+
+	/**
+	 * Optional: subscribes to state changes made outside of Flow (e.g. a
+	 * conflict merge adopted after saving) and returns an unsubscribe function.
+	 * The listener receives the UUID whose state changed.
+	 */
+	subscribe?: (listener: (uuid: string) => void) => () => void;
+
+	/**
+	 * Optional: removes every stored flow for which `isStale` returns true.
+	 * Flow calls it on mount to drop flows that ended long ago.
+	 */
+	sweep?: (
+		isStale: (uuid: string, metadata: FlowMetadata | null) => boolean,
+	) => void;
+};
+
+/**
+ * Async persistence contract for flow state (IndexedDB, remote APIs, etc.).
+ * Wrap an implementation in AsyncStateManager to use it as a FlowStateStorage.
+ */
+export type AsyncFlowStateStorage = {
+	/**
+	 * Loads all page state for a flow UUID (null if nothing is stored)
+	 */
+	load: (uuid: string) => Promise<FlowStateByPage | null>;
+
+	/**
+	 * Persists all page state for a flow UUID
+	 */
+	save: (uuid: string, state: FlowStateByPage) => Promise<void>;
+
+	/**
+	 * Optional: persists like `save`, resolving with the state that was actually
+	 * stored when it differs from what was passed (e.g. after resolving a
+	 * conflict), or null. Used instead of `save` when present; the cache is
+	 * updated to match.
+	 */
+	saveMerged?: (
+		uuid: string,
+		state: FlowStateByPage,
+	) => Promise<FlowStateByPage | null>;
+
+	/**
+	 * Removes all persisted state for a flow UUID
+	 */
+	remove: (uuid: string) => Promise<void>;
+
+	/**
+	 * Optional: lists the stored flow UUIDs, so old flows can be swept
+	 */
+	list?: () => Promise<string[]>;
+};
+
 /**
  * URL parameter adapter interface for framework-agnostic routing
  */
@@ -98,6 +459,19 @@ export type UrlParamsAdapter = {
 	 * Replace all URL parameters
 	 */
 	replaceParams: (params: Record<string, string>) => void;
+
+	/**
+	 * Optional: subscribes to param changes (e.g. back/forward) and returns an
+	 * unsubscribe function. Without it, useUrlParams listens to `popstate`.
+	 */
+	subscribe?: (listener: () => void) => () => void;
+
+	/**
+	 * Optional: goes back one history entry. The flow uses it for in-app Back
+	 * when the previous entry is the page it goes back to; without it, Back
+	 * replaces the current entry instead.
+	 */
+	back?: () => void;
 };
 
 /**
@@ -122,7 +496,7 @@ export type FlowContextValue = {
 	goToNext: () => void;
 
 	/**
-	 * Navigate to the previous page
+	 * Navigate to the previous visited page (or the page's previousPageFallback)
 	 */
 	goToPrevious: () => void;
 
@@ -152,6 +526,12 @@ export type FlowContextValue = {
 	 */
 	updateStateBatch: (updates: Record<string, unknown>) => void;
 
+	/**
+	 * Update multiple state values and navigate to the next page in one step.
+	 * The next page (and skipped pages) are resolved against the updated state.
+	 */
+	updateStateAndGoToNext: (updates: Record<string, unknown>) => void;
+
 	/**
 	 * Get state for a specific page (page-scoped, no merge).
 	 * Use this when you need another page's data or to avoid key collisions.
@@ -201,6 +581,86 @@ export type FlowContextValue = {
 	 * Reactive snapshot of all URL params (updates on navigation).
 	 */
 	urlParams: Record<string, string>;
+
+	/**
+	 * True when cross-tab sync uses the "lock" policy and another tab owns this flow.
+	 * State updates, navigation and completeFlow are ignored while read-only.
+	 */
+	isReadOnly: boolean;
+
+	/**
+	 * Page another tab navigated to, when cross-tab sync uses the "warn" policy
+	 * (null when in sync or sync is off)
+	 */
+	remotePage: string | null;
+
+	/**
+	 * Why the flow is expired while currentPage is "__expired__" (null otherwise)
+	 */
+	expiredReason: ExpiredReason | null;
+
+	/**
+	 * When the flow will expire from max age or inactivity (ms since epoch).
+	 * Null when no expiration is configured. See useFlowExpiry().
+	 */
+	expiresAt: number | null;
+
+	/**
+	 * Records activity now, pushing back the idle timeout (e.g. a "Stay" button)
+	 */
+	extendSession: () => void;
+
+	/**
+	 * True while an async `nextPage` resolver or `shouldSkip` predicate is pending.
+	 * Navigating again drops the pending result.
+	 */
+	isNavigating: boolean;
+
+	/**
+	 * Error thrown (or timeout hit) by the last async resolver or skip predicate.
+	 * Cleared when the next navigation starts.
+	 */
+	navigationError: Error | null;
+
+	/**
+	 * Pages visited in this flow, oldest first, ending with the current page.
+	 * Going back drops pages; skipped pages are never added.
+	 */
+	visitedPages: string[];
+
+	/**
+	 * Whether goToPrevious has a page to go back to
+	 * (a visited page or the current page's previousPageFallback)
+	 */
+	canGoBack: boolean;
+
+	/**
+	 * Direction of the last navigation (null on initial load)
+	 */
+	navigationDirection: NavigationDirection | null;
+
+	/**
+	 * Validation errors of the current page. Empty until the page was validated
+	 * (validateCurrentPage or goToNext), then kept up to date as state changes.
+	 */
+	errors: FlowValidationErrors;
+
+	/**
+	 * Whether the current page's state passes its `validate` function (true without one)
+	 */
+	isValid: boolean;
+
+	/**
+	 * Validates the current page and shows its errors. Returns isValid.
+	 */
+	validateCurrentPage: () => boolean;
+
+	/**
+	 * Encodes the state of all pages and the current page into a URL-safe
+	 * resume token, signed with `resume.sign` when configured. A flow opened
+	 * with the token in its resume param continues there (FlowConfig.resume).
+	 */
+	createResumeToken: () => Promise<string>;
 };
 
 /**
@@ -215,3 +675,17 @@ export type UseFlowReturn = Omit<FlowContextValue, "hasNext"> & {
 	/** Whether there is a next page (resolved boolean). */
 	hasNext: boolean;
 };
+
+/**
+ * Return type of useFlowExpiry()
+ */
+export type UseFlowExpiryReturn = {
+	/** When the flow expires (ms since epoch), or null when no expiration is configured. */
+	expiresAt: number | null;
+	/** Milliseconds until the flow expires (never negative), or null when no expiration is configured. */
+	timeRemaining: number | null;
+	/** Whether timeRemaining is within the warning window. */
+	isExpiringSoon: boolean;
+	/** Records activity now, pushing back the idle timeout. */
+	extendSession: () => void;
+};
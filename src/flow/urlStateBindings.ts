@@ -0,0 +1,95 @@
+import type { FlowStateByPage } from "@/flow/types";
+
+/**
+ * Mirrors one page state key into a URL param. Only bound keys reach the URL,
+ * so keep personal data out of the bindings.
+ */
+export type UrlStateBinding<TValue = unknown> = {
+	/**
+	 * Page whose state holds the key
+	 */
+	page: string;
+
+	/**
+	 * State key on that page
+	 */
+	key: string;
+
+	/**
+	 * URL param name (defaults to the key)
+	 */
+	param?: string;
+
+	/**
+	 * Converts the value for the URL (defaults to String). Return undefined
+	 * to leave the URL unchanged.
+	 */
+	serialize?(value: TValue): string | undefined;
+
+	/**
+	 * Parses the URL param back into state (defaults to the string as is).
+	 * Return undefined to ignore an invalid value.
+	 */
+	deserialize?(value: string): TValue | undefined;
+};
+
+/**
+ * Gets the URL params for the bound state keys. Keys without a value
+ * (or that serialize to undefined) are left out.
+ */
+export function getUrlStateParams(
+	bindings: UrlStateBinding[],
+	state: FlowStateByPage,
+): Record<string, string> {
+	const params: Record<string, string> = {};
+	for (const binding of bindings) {
+		const value = state[binding.page]?.[binding.key];
+		if (value === undefined || value === null) {
+			continue;
+		}
+		const serialized = binding.serialize
+			? binding.serialize(value)
+			: String(value);
+		if (serialized !== undefined) {
+			params[binding.param ?? binding.key] = serialized;
+		}
+	}
+	return params;
+}
+
+/**
+ * Gets the URL params of bound state keys that have no value, so they can be
+ * removed from the URL
+ */
+export function getClearedUrlStateParams(
+	bindings: UrlStateBinding[],
+	state: FlowStateByPage,
+): string[] {
+	return bindings
+		.filter((binding) => state[binding.page]?.[binding.key] == null)
+		.map((binding) => binding.param ?? binding.key);
+}
+
+/**
+ * Reads the bound state keys from URL params, by page. Keys that already
+ * have a value in `state` and params that are missing (or deserialize to
+ * undefined) are left out.
+ */
+export function readUrlState(
+	bindings: UrlStateBinding[],
+	params: Record<string, string>,
+	state: FlowStateByPage,
+): FlowStateByPage {
+	const values: FlowStateByPage = {};
+	for (const binding of bindings) {
+		const param = params[binding.param ?? binding.key];
+		if (param === undefined || state[binding.page]?.[binding.key] != null) {
+			continue;
+		}
+		const value = binding.deserialize ? binding.deserialize(param) : param;
+		if (value !== undefined) {
+			values[binding.page] = { ...values[binding.page], [binding.key]: value };
+		}
+	}
+	return values;
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useFlowContext } from "@/flow/FlowContext";
+import type { UseFlowExpiryReturn } from "@/flow/types";
+import { useEffect, useState } from "react";
+
+/**
+ * Options for useFlowExpiry
+ */
+export type UseFlowExpiryOptions = {
+	/**
+	 * How long before expiry `isExpiringSoon` becomes true, in ms (defaults to 60s)
+	 */
+	warnBefore?: number;
+
+	/**
+	 * How often timeRemaining updates, in ms (defaults to 1s)
+	 */
+	interval?: number;
+};
+
+/**
+ * Time remaining before the flow expires from FlowConfig.expiration.
+ * Use it to show a "your session will expire" warning with a button that
+ * calls extendSession().
+ *
+ * @example
+ * const { timeRemaining, isExpiringSoon, extendSession } = useFlowExpiry({ warnBefore: 120_000 });
+ * if (isExpiringSoon) {
+ *   return <button onClick={extendSession}>Still there? {Math.ceil(timeRemaining / 1000)}s left</button>;
+ * }
+ */
+export function useFlowExpiry(
+	options: UseFlowExpiryOptions = {},
+): UseFlowExpiryReturn {
+	const { warnBefore = 60_000, interval = 1000 } = options;
+	const { expiresAt, extendSession } = useFlowContext();
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		if (expiresAt === null) {
+			return;
+		}
+
+		setNow(Date.now());
+		const timer = setInterval(() => {
+			setNow(Date.now());
+		}, interval);
+
+		return () => {
+			clearInterval(timer);
+		};
+	}, [expiresAt, interval]);
+
+	const timeRemaining =
+		expiresAt === null ? null : Math.max(expiresAt - now, 0);
+
+	return {
+		expiresAt,
+		timeRemaining,
+		isExpiringSoon: timeRemaining !== null && timeRemaining <= warnBefore,
+		extendSession,
+	};
+}
@@ -1,3 +1,8 @@
+import {
+	goBackInBrowser,
+	subscribeToBrowserUrl,
+	updateBrowserUrl,
+} from "@/flow/browserHistory";
 import type { UrlParamsAdapter } from "@/flow/types";
 import { useCallback, useEffect, useState } from "react";
 
@@ -19,7 +24,7 @@ export const browserUrlParamsAdapter: UrlParamsAdapter = {
 		}
 		const url = new URL(window.location.href);
 		url.searchParams.set(key, value);
-		window.history.pushState({}, "", url.toString());
+		updateBrowserUrl(url.toString(), "push");
 	},
 
 	replaceParam: (key: string, value: string): void => {
@@ -28,7 +33,7 @@ export const browserUrlParamsAdapter: UrlParamsAdapter = {
 		}
 		const url = new URL(window.location.href);
 		url.searchParams.set(key, value);
-		window.history.replaceState({}, "", url.toString());
+		updateBrowserUrl(url.toString(), "replace");
 	},
 
 	getAllParams: (): Record<string, string> => {
@@ -54,10 +59,28 @@ export const browserUrlParamsAdapter: UrlParamsAdapter = {
 		for (const [key, value] of Object.entries(params)) {
 			url.searchParams.set(key, value);
 		}
-		window.history.replaceState({}, "", url.toString());
+		updateBrowserUrl(url.toString(), "replace");
 	},
+
+	subscribe: subscribeToBrowserUrl,
+
+	back: goBackInBrowser,
 };
 
+/**
+ * Whether two param objects have the same keys and values
+ */
+function hasSameParams(
+	a: Record<string, string>,
+	b: Record<string, string>,
+): boolean {
+	const keys = Object.keys(a);
+	return (
+		keys.length === Object.keys(b).length &&
+		keys.every((key) => a[key] === b[key])
+	);
+}
+
 /**
  * Hook for managing URL parameters in a framework-agnostic way
  */
@@ -68,22 +91,29 @@ export function useUrlParams(
 		adapter.getAllParams(),
 	);
 
-	// Sync with URL changes (browser back/forward) and when adapter changes
+	// Sync with URL changes (browser back/forward, routers) and when adapter changes
 	useEffect(() => {
+		// Keep the previous object when nothing changed (avoids re-running effects)
+		const handleChange = () => {
+			const next = adapter.getAllParams();
+			setParams((prev) => (hasSameParams(prev, next) ? prev : next));
+		};
+
+		// Re-read from the current URL when the adapter changes
+		handleChange();
+
+		if (adapter.subscribe) {
+			return adapter.subscribe(handleChange);
+		}
+
+		// Adapters without subscribe only learn about back/forward
 		if (typeof window === "undefined") {
 			return;
 		}
 
-		// Re-read from current URL when adapter changes (e.g. after popstate + parent re-render)
-		setParams(adapter.getAllParams());
-
-		const handlePopState = () => {
-			setParams(adapter.getAllParams());
-		};
-
-		window.addEventListener("popstate", handlePopState);
+		window.addEventListener("popstate", handleChange);
 		return () => {
-			window.removeEventListener("popstate", handlePopState);
+			window.removeEventListener("popstate", handleChange);
 		};
 	}, [adapter]);
 
@@ -128,6 +158,7 @@ export function useUrlParams(
 		replaceParam,
 		getAllParams,
 		replaceParams,
+		back: adapter.back,
 		params,
 	};
 }
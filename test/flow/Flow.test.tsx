@@ -0,0 +1,871 @@
+import { Flow } from "@/flow/Flow";
+import { AsyncStateManager } from "@/flow/asyncStateManagers";
+import { MemoryStateManager } from "@/flow/flowStateManagers";
+import { getGraphKey, initializeFlow } from "@/flow/graphHelpers";
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import type { FlowStateByPage } from "@/flow/types";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+function StepA() {
+	const { stateKey, goToNext } = useFlow();
+	const [name, setName] = stateKey<string>("name");
+	return (
+		<div data-testid="step-a">
+			<span data-testid="name">{name ?? ""}</span>
+			<button type="button" onClick={() => setName("Alice")}>
+				set
+			</button>
+			<button type="button" onClick={goToNext}>
+				next
+			</button>
+		</div>
+	);
+}
+
+function StepB() {
+	return <div data-testid="step-b">B</div>;
+}
+
+function Expired() {
+	const { expiredReason } = useFlow();
+	return <div data-testid="expired">{expiredReason}</div>;
+}
+
+const componentLoaders = new Map([
+	["a", () => Promise.resolve({ default: StepA })],
+	["b", () => Promise.resolve({ default: StepB })],
+	["__expired__", () => Promise.resolve({ default: Expired })],
+]);
+
+describe("Flow", () => {
+	beforeEach(() => {
+		window.history.replaceState({}, "", "/");
+		window.sessionStorage.clear();
+	});
+
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("stores state in the configured stateManager", async () => {
+		const graph = initializeFlow(
+			[{ currentPage: "a", nextPage: "b" }, { currentPage: "b" }],
+			"a",
+		);
+		const stateManager = new MemoryStateManager();
+		render(<Flow graph={graph} config={{ componentLoaders, stateManager }} />);
+
+		await screen.findByTestId("step-a");
+		act(() => screen.getByText("set").click());
+
+		const uuid = new URLSearchParams(window.location.search).get("id");
+		expect(uuid).toBeTruthy();
+		expect(screen.getByTestId("name")).toHaveTextContent("Alice");
+		expect(stateManager.getState(uuid as string, "a")).toEqual({
+			name: "Alice",
+		});
+		expect(window.sessionStorage.length).toBe(0);
+
+		act(() => screen.getByText("next").click());
+		expect(await screen.findByTestId("step-b")).toBeInTheDocument();
+		expect(new URLSearchParams(window.location.search).get("page")).toBe("b");
+	});
+
+	it("awaits async storage hydration before checking for expired state", async () => {
+		const graph = initializeFlow(
+			[{ currentPage: "a", nextPage: "b" }, { currentPage: "b" }],
+			"a",
+		);
+		const stateManager = new AsyncStateManager({
+			load: async (uuid) =>
+				uuid === "saved" ? { a: { name: "Alice" } } : null,
+			save: async () => {},
+			remove: async () => {},
+		});
+		window.history.replaceState({}, "", "/?id=saved&page=b");
+
+		render(<Flow graph={graph} config={{ componentLoaders, stateManager }} />);
+
+		expect(await screen.findByTestId("step-b")).toBeInTheDocument();
+	});
+
+	it("re-renders when async storage adopts a merged state", async () => {
+		const graph = initializeFlow(
+			[{ currentPage: "a", nextPage: "b" }, { currentPage: "b" }],
+			"a",
+		);
+		const stateManager = new AsyncStateManager({
+			load: async () => null,
+			save: async () => {},
+			saveMerged: async (_uuid, state) => ({
+				...state,
+				a: { name: "Merged" },
+			}),
+			remove: async () => {},
+		});
+		render(<Flow graph={graph} config={{ componentLoaders, stateManager }} />);
+
+		await screen.findByTestId("step-a");
+		act(() => screen.getByText("set").click());
+		expect(screen.getByTestId("name")).toHaveTextContent("Alice");
+
+		await act(() => stateManager.flush());
+		expect(screen.getByTestId("name")).toHaveTextContent("Merged");
+	});
+
+	describe("expiration", () => {
+		const graph = initializeFlow(
+			[{ currentPage: "a", nextPage: "b" }, { currentPage: "b" }],
+			"a",
+		);
+
+		it("reports missing state as the expired reason", async () => {
+			window.history.replaceState({}, "", "/?id=unknown&page=b");
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders, stateManager: new MemoryStateManager() }}
+				/>,
+			);
+			expect(await screen.findByTestId("expired")).toHaveTextContent("missing");
+		});
+
+		it("reports completed flows when revisited", async () => {
+			const stateManager = new MemoryStateManager();
+			stateManager.setState("done", "a", "name", "Alice");
+			stateManager.setMetadata("done", {
+				createdAt: Date.now(),
+				updatedAt: Date.now(),
+				completedAt: Date.now(),
+			});
+			window.history.replaceState({}, "", "/?id=done&page=b");
+			render(
+				<Flow graph={graph} config={{ componentLoaders, stateManager }} />,
+			);
+			expect(await screen.findByTestId("expired")).toHaveTextContent(
+				"completed",
+			);
+		});
+
+		it("removes flows of its graph that were completed longer than the retention ago", async () => {
+			const stateManager = new MemoryStateManager();
+			const day = 24 * 60 * 60 * 1000;
+			for (const [uuid, completedAt, graphKey] of [
+				["old", Date.now() - 2 * day, getGraphKey(graph)],
+				["recent", Date.now(), getGraphKey(graph)],
+				["other-graph", Date.now() - 2 * day, "x,y"],
+			] as const) {
+				stateManager.setMetadata(uuid, {
+					createdAt: completedAt,
+					updatedAt: completedAt,
+					completedAt,
+					graphKey,
+				});
+			}
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders,
+						stateManager,
+						expiration: { retention: day },
+					}}
+				/>,
+			);
+
+			await screen.findByTestId("step-a");
+			expect(stateManager.hasState("old")).toBe(false);
+			expect(stateManager.hasState("recent")).toBe(true);
+			// Judged by the expiry of the Flow that runs it
+			expect(stateManager.hasState("other-graph")).toBe(true);
+		});
+
+		it("reports version mismatches", async () => {
+			const stateManager = new MemoryStateManager();
+			stateManager.setMetadata("old", {
+				createdAt: Date.now(),
+				updatedAt: Date.now(),
+				version: "1",
+			});
+			window.history.replaceState({}, "", "/?id=old&page=b");
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders, stateManager, version: "2" }}
+				/>,
+			);
+			expect(await screen.findByTestId("expired")).toHaveTextContent(
+				"version-mismatch",
+			);
+		});
+
+		it("expires after the idle timeout and starts over on the entry point", async () => {
+			const stateManager = new MemoryStateManager();
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders,
+						stateManager,
+						expiration: { idleTimeout: 50 },
+					}}
+				/>,
+			);
+			await screen.findByTestId("step-a");
+			const uuid = new URLSearchParams(window.location.search).get(
+				"id",
+			) as string;
+			expect(stateManager.getMetadata(uuid)).not.toBeNull();
+
+			expect(await screen.findByTestId("expired")).toHaveTextContent("timeout");
+			cleanup();
+
+			// Reloading the entry point with the same UUID starts a fresh flow
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders,
+						stateManager,
+						expiration: { idleTimeout: 60_000 },
+					}}
+				/>,
+			);
+			expect(await screen.findByTestId("step-a")).toBeInTheDocument();
+		});
+	});
+
+	describe("async resolvers", () => {
+		function AsyncStep() {
+			const { goToNext, goToPage, isNavigating, navigationError } = useFlow();
+			return (
+				<div data-testid="async-step">
+					<span data-testid="status">
+						{isNavigating ? "pending" : (navigationError?.message ?? "idle")}
+					</span>
+					<button type="button" onClick={goToNext}>
+						next
+					</button>
+					<button type="button" onClick={() => goToPage("c")}>
+						jump
+					</button>
+				</div>
+			);
+		}
+
+		function StepC() {
+			return <div data-testid="step-c">C</div>;
+		}
+
+		const asyncLoaders = new Map([
+			["a", () => Promise.resolve({ default: AsyncStep })],
+			["b", () => Promise.resolve({ default: StepB })],
+			["c", () => Promise.resolve({ default: StepC })],
+		]);
+
+		function deferred<T>() {
+			let resolve: (value: T) => void = () => {};
+			const promise = new Promise<T>((r) => {
+				resolve = r;
+			});
+			return { promise, resolve };
+		}
+
+		it("exposes a pending state while an async nextPage resolves", async () => {
+			const next = deferred<string>();
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: () => next.promise },
+				{ currentPage: "b" },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow graph={graph} config={{ componentLoaders: asyncLoaders }} />,
+			);
+
+			await screen.findByTestId("async-step");
+			act(() => screen.getByText("next").click());
+			expect(screen.getByTestId("status")).toHaveTextContent("pending");
+
+			await act(async () => next.resolve("b"));
+			expect(await screen.findByTestId("step-b")).toBeInTheDocument();
+			expect(new URLSearchParams(window.location.search).get("page")).toBe("b");
+		});
+
+		it("keeps the page shown while navigating after an async skip check", async () => {
+			const next = deferred<string>();
+			const graph = initializeFlow([
+				{
+					currentPage: "a",
+					nextPage: () => next.promise,
+					shouldSkip: async () => false,
+				},
+				{ currentPage: "b" },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: asyncLoaders,
+						pendingFallback: <div data-testid="fallback" />,
+					}}
+				/>,
+			);
+
+			await screen.findByTestId("async-step");
+			await waitFor(() =>
+				expect(screen.getByTestId("status")).toHaveTextContent("idle"),
+			);
+			act(() => screen.getByText("next").click());
+			expect(screen.getByTestId("status")).toHaveTextContent("pending");
+			expect(screen.queryByTestId("fallback")).toBeNull();
+
+			await act(async () => next.resolve("b"));
+			expect(await screen.findByTestId("step-b")).toBeInTheDocument();
+		});
+
+		it("drops a pending result when the user navigates again", async () => {
+			const next = deferred<string>();
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: () => next.promise },
+				{ currentPage: "b" },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow graph={graph} config={{ componentLoaders: asyncLoaders }} />,
+			);
+
+			await screen.findByTestId("async-step");
+			act(() => screen.getByText("next").click());
+			act(() => screen.getByText("jump").click());
+			await act(async () => next.resolve("b"));
+
+			expect(await screen.findByTestId("step-c")).toBeInTheDocument();
+			expect(new URLSearchParams(window.location.search).get("page")).toBe("c");
+		});
+
+		it("surfaces timeouts and errors as navigationError", async () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: () => new Promise<string>(() => {}) },
+				{ currentPage: "b" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders: asyncLoaders, resolverTimeout: 20 }}
+				/>,
+			);
+
+			await screen.findByTestId("async-step");
+			act(() => screen.getByText("next").click());
+			expect(
+				await screen.findByText(
+					'Resolving the next page of "a" timed out after 20ms',
+				),
+			).toBeInTheDocument();
+			expect(screen.getByTestId("async-step")).toBeInTheDocument();
+		});
+
+		it("resolves hasNext for async resolvers after render and as state changes", async () => {
+			function HasNextStep() {
+				const { hasNext, updateState } = useFlow();
+				return (
+					<>
+						<span data-testid="has-next">{String(hasNext)}</span>
+						<button type="button" onClick={() => updateState("more", true)}>
+							more
+						</button>
+					</>
+				);
+			}
+			const graph = initializeFlow([
+				{
+					currentPage: "a",
+					nextPage: async (state: FlowStateByPage) =>
+						state.a?.more ? "b" : null,
+				},
+				{ currentPage: "b" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: new Map([
+							["a", () => Promise.resolve({ default: HasNextStep })],
+							["b", () => Promise.resolve({ default: StepB })],
+						]),
+						stateManager: new MemoryStateManager(),
+					}}
+				/>,
+			);
+
+			await waitFor(() =>
+				expect(screen.getByTestId("has-next")).toHaveTextContent("false"),
+			);
+			act(() => screen.getByText("more").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("has-next")).toHaveTextContent("true"),
+			);
+		});
+
+		it("renders pendingFallback while an async shouldSkip decides", async () => {
+			const skip = deferred<boolean>();
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c", shouldSkip: () => skip.promise },
+				{ currentPage: "c" },
+			]);
+			window.history.replaceState({}, "", "/?id=skip&page=b");
+			const stateManager = new MemoryStateManager();
+			stateManager.preRegisterState(graph, "skip");
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: asyncLoaders,
+						stateManager,
+						pendingFallback: <div data-testid="checking" />,
+					}}
+				/>,
+			);
+
+			expect(await screen.findByTestId("checking")).toBeInTheDocument();
+			await act(async () => skip.resolve(true));
+			expect(await screen.findByTestId("step-c")).toBeInTheDocument();
+			expect(new URLSearchParams(window.location.search).get("page")).toBe("c");
+		});
+	});
+
+	describe("navigation guards", () => {
+		function StepB2() {
+			const { goToPage } = useFlow();
+			return (
+				<div data-testid="step-b">
+					<button type="button" onClick={() => goToPage("a")}>
+						jump
+					</button>
+				</div>
+			);
+		}
+
+		const guardLoaders = new Map([
+			["a", () => Promise.resolve({ default: StepA })],
+			["b", () => Promise.resolve({ default: StepB2 })],
+			["login", () => Promise.resolve({ default: StepB })],
+		]);
+
+		const page = () => new URLSearchParams(window.location.search).get("page");
+
+		it("cancels goToNext when canLeave rejects", async () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b", canLeave: () => false },
+				{ currentPage: "b" },
+			]);
+			render(
+				<Flow graph={graph} config={{ componentLoaders: guardLoaders }} />,
+			);
+
+			await screen.findByTestId("step-a");
+			act(() => screen.getByText("next").click());
+			expect(screen.getByTestId("step-a")).toBeInTheDocument();
+			expect(page()).not.toBe("b");
+		});
+
+		it("redirects through the flow-level guard", async () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b" },
+				{ currentPage: "login" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: guardLoaders,
+						navigationGuard: ({ to }) =>
+							to === "b" ? { redirect: "login" } : true,
+					}}
+				/>,
+			);
+
+			await screen.findByTestId("step-a");
+			act(() => screen.getByText("next").click());
+			expect(page()).toBe("login");
+		});
+
+		it("restores the URL when a browser back navigation is rejected", async () => {
+			const confirmNavigation = vi.fn(() => false);
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{
+					currentPage: "b",
+					previousPageFallback: "a",
+					canLeave: (_state, direction) =>
+						direction === "back" ? { confirm: "Leave?" } : true,
+				},
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders: guardLoaders, confirmNavigation }}
+				/>,
+			);
+
+			await screen.findByTestId("step-a");
+			act(() => screen.getByText("next").click());
+			await screen.findByTestId("step-b");
+			const id = new URLSearchParams(window.location.search).get("id");
+
+			act(() => {
+				window.history.pushState({}, "", `/?id=${id}&page=a`);
+				window.dispatchEvent(new PopStateEvent("popstate"));
+			});
+
+			expect(confirmNavigation).toHaveBeenCalledWith("Leave?");
+			expect(page()).toBe("b");
+			expect(screen.getByTestId("step-b")).toBeInTheDocument();
+
+			// Jumps are not "back", so the guard lets them through
+			act(() => screen.getByText("jump").click());
+			expect(await screen.findByTestId("step-a")).toBeInTheDocument();
+		});
+
+		it("replaces the URL when a browser back navigation is rejected", async () => {
+			const adapter = createMemoryUrlParamsAdapter({ page: "a" });
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", canLeave: () => false },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: guardLoaders,
+						urlParamsAdapter: adapter,
+						stateManager: new MemoryStateManager(),
+					}}
+				/>,
+			);
+
+			await screen.findByTestId("step-a");
+			act(() => screen.getByText("next").click());
+			await screen.findByTestId("step-b");
+			const index = adapter.getIndex();
+
+			act(() => adapter.back());
+			expect(adapter.getParam("page")).toBe("b");
+			expect(screen.getByTestId("step-b")).toBeInTheDocument();
+
+			// No entry was pushed, so Back keeps moving towards the start
+			expect(adapter.getIndex()).toBe(index - 1);
+			expect(adapter.getEntries()).toHaveLength(index + 1);
+		});
+	});
+
+	describe("validation", () => {
+		function ValidatedStep() {
+			const { stateKey, goToNext, errors, isValid, validateCurrentPage } =
+				useFlow();
+			const [name, setName] = stateKey<string>("name");
+			return (
+				<div data-testid="step-a">
+					<span data-testid="error">{errors.name ?? ""}</span>
+					<span data-testid="valid">{String(isValid)}</span>
+					<button type="button" onClick={() => setName("Alice")}>
+						set
+					</button>
+					<button type="button" onClick={() => validateCurrentPage()}>
+						validate
+					</button>
+					<button type="button" onClick={goToNext}>
+						next
+					</button>
+					{name}
+				</div>
+			);
+		}
+
+		const validationLoaders = new Map([
+			["a", () => Promise.resolve({ default: ValidatedStep })],
+			["b", () => Promise.resolve({ default: StepB })],
+		]);
+
+		const graph = initializeFlow([
+			{
+				currentPage: "a",
+				nextPage: "b",
+				validate: (pageState) =>
+					pageState.name ? {} : { name: "Name is required" },
+			},
+			{ currentPage: "b" },
+		]);
+
+		it("hides errors until the page is validated", async () => {
+			render(
+				<Flow graph={graph} config={{ componentLoaders: validationLoaders }} />,
+			);
+
+			await screen.findByTestId("step-a");
+			expect(screen.getByTestId("valid")).toHaveTextContent("false");
+			expect(screen.getByTestId("error")).toHaveTextContent("");
+
+			act(() => screen.getByText("validate").click());
+			expect(screen.getByTestId("error")).toHaveTextContent("Name is required");
+
+			// Errors follow the state once shown
+			act(() => screen.getByText("set").click());
+			expect(screen.getByTestId("error")).toHaveTextContent("");
+			expect(screen.getByTestId("valid")).toHaveTextContent("true");
+		});
+
+		it("doesn't advance while the page has errors", async () => {
+			render(
+				<Flow graph={graph} config={{ componentLoaders: validationLoaders }} />,
+			);
+
+			await screen.findByTestId("step-a");
+			act(() => screen.getByText("next").click());
+			expect(screen.getByTestId("step-a")).toBeInTheDocument();
+			expect(screen.getByTestId("error")).toHaveTextContent("Name is required");
+
+			act(() => screen.getByText("set").click());
+			act(() => screen.getByText("next").click());
+			expect(await screen.findByTestId("step-b")).toBeInTheDocument();
+		});
+	});
+
+	describe("updateStateAndGoToNext", () => {
+		function PlanStep() {
+			const { updateStateAndGoToNext } = useFlow();
+			return (
+				<button
+					type="button"
+					onClick={() => updateStateAndGoToNext({ plan: "pro" })}
+				>
+					pro
+				</button>
+			);
+		}
+
+		function Billing() {
+			return <div data-testid="billing">billing</div>;
+		}
+
+		const planLoaders = new Map([
+			["plan", () => Promise.resolve({ default: PlanStep })],
+			["billing", () => Promise.resolve({ default: Billing })],
+			["b", () => Promise.resolve({ default: StepB })],
+		]);
+
+		const graph = initializeFlow([
+			{
+				currentPage: "plan",
+				nextPage: (state) => (state.plan?.plan === "pro" ? "billing" : "b"),
+			},
+			{ currentPage: "billing" },
+			{ currentPage: "b" },
+		]);
+
+		it.each([true, false])(
+			"resolves the next page against the updated state (enableState: %s)",
+			async (enableState) => {
+				const onPageChange = vi.fn();
+				render(
+					<Flow
+						graph={graph}
+						config={{
+							componentLoaders: planLoaders,
+							enableState,
+							onPageChange,
+						}}
+					/>,
+				);
+
+				await screen.findByText("pro");
+				act(() => screen.getByText("pro").click());
+
+				expect(await screen.findByTestId("billing")).toBeInTheDocument();
+				expect(onPageChange).toHaveBeenLastCalledWith(
+					"billing",
+					"plan",
+					expect.objectContaining({ plan: { plan: "pro" } }),
+				);
+			},
+		);
+	});
+
+	describe("history", () => {
+		function HistoryStep() {
+			const {
+				currentPage,
+				goToNext,
+				goToPrevious,
+				visitedPages,
+				canGoBack,
+				navigationDirection,
+			} = useFlow();
+			return (
+				<div data-testid="history-step">
+					<span data-testid="page">{currentPage}</span>
+					<span data-testid="visited">{visitedPages.join(",")}</span>
+					<span data-testid="direction">{String(navigationDirection)}</span>
+					<span data-testid="can-go-back">{String(canGoBack)}</span>
+					<button type="button" onClick={goToNext}>
+						next
+					</button>
+					<button type="button" onClick={goToPrevious}>
+						back
+					</button>
+				</div>
+			);
+		}
+
+		const historyLoaders = new Map(
+			["a", "b", "c"].map((page) => [
+				page,
+				() => Promise.resolve({ default: HistoryStep }),
+			]),
+		);
+
+		it("goes back through visited pages without browser history", async () => {
+			const back = vi.spyOn(window.history, "back");
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c", shouldSkip: () => true },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow graph={graph} config={{ componentLoaders: historyLoaders }} />,
+			);
+
+			await screen.findByTestId("history-step");
+			expect(screen.getByTestId("can-go-back")).toHaveTextContent("false");
+
+			act(() => screen.getByText("next").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("c"),
+			);
+			expect(screen.getByTestId("visited")).toHaveTextContent("a,c");
+			expect(screen.getByTestId("direction")).toHaveTextContent("forward");
+			expect(screen.getByTestId("can-go-back")).toHaveTextContent("true");
+
+			act(() => screen.getByText("back").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("a"),
+			);
+			expect(screen.getByTestId("visited")).toHaveTextContent(/^a$/);
+			expect(screen.getByTestId("direction")).toHaveTextContent("back");
+			expect(new URLSearchParams(window.location.search).get("page")).toBe("a");
+			expect(back).not.toHaveBeenCalled();
+			back.mockRestore();
+		});
+
+		it("pops the URL entry so the browser's Back keeps going back", async () => {
+			const adapter = createMemoryUrlParamsAdapter({ page: "a" });
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c" },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{
+						componentLoaders: historyLoaders,
+						urlParamsAdapter: adapter,
+						stateManager: new MemoryStateManager(),
+					}}
+				/>,
+			);
+
+			await screen.findByTestId("history-step");
+			act(() => screen.getByText("next").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("b"),
+			);
+			act(() => screen.getByText("next").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("c"),
+			);
+			const index = adapter.getIndex();
+
+			// In-app Back moves down one entry instead of rewriting this one
+			act(() => screen.getByText("back").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("b"),
+			);
+			expect(adapter.getIndex()).toBe(index - 1);
+			expect(adapter.getParam("page")).toBe("b");
+
+			// Then the browser's Back goes on to the page before
+			act(() => adapter.back());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("a"),
+			);
+			expect(screen.getByTestId("visited")).toHaveTextContent(/^a$/);
+			expect(screen.getByTestId("direction")).toHaveTextContent("back");
+		});
+
+		it("restores visited pages persisted for the UUID", async () => {
+			const stateManager = new MemoryStateManager();
+			stateManager.setState("saved", "a", "name", "Alice");
+			stateManager.setMetadata("saved", {
+				createdAt: Date.now(),
+				updatedAt: Date.now(),
+				visitedPages: ["a", "b"],
+			});
+			window.history.replaceState({}, "", "/?id=saved&page=b");
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c" },
+				{ currentPage: "c" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders: historyLoaders, stateManager }}
+				/>,
+			);
+
+			await screen.findByTestId("history-step");
+			expect(screen.getByTestId("visited")).toHaveTextContent("a,b");
+			expect(screen.getByTestId("direction")).toHaveTextContent("null");
+
+			act(() => screen.getByText("next").click());
+			expect(stateManager.getMetadata("saved")?.visitedPages).toEqual([
+				"a",
+				"b",
+				"c",
+			]);
+		});
+
+		it("falls back to previousPageFallback when nothing was visited before", async () => {
+			const stateManager = new MemoryStateManager();
+			stateManager.setState("deep", "a", "name", "Alice");
+			window.history.replaceState({}, "", "/?id=deep&page=c");
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c" },
+				{ currentPage: "c", previousPageFallback: "a" },
+			]);
+			render(
+				<Flow
+					graph={graph}
+					config={{ componentLoaders: historyLoaders, stateManager }}
+				/>,
+			);
+
+			await screen.findByTestId("history-step");
+			expect(screen.getByTestId("can-go-back")).toHaveTextContent("true");
+
+			act(() => screen.getByText("back").click());
+			await waitFor(() =>
+				expect(screen.getByTestId("page")).toHaveTextContent("a"),
+			);
+			expect(screen.getByTestId("visited")).toHaveTextContent(/^a$/);
+			expect(screen.getByTestId("can-go-back")).toHaveTextContent("false");
+		});
+	});
+});
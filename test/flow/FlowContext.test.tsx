@@ -18,6 +18,7 @@ describe("FlowContext", () => {
 			skipToPage: () => {},
 			updateState: () => {},
 			updateStateBatch: () => {},
+			updateStateAndGoToNext: () => {},
 			getPageState: () => ({}),
 			getCurrentNode: () => undefined,
 			getNode: () => undefined,
@@ -27,6 +28,20 @@ describe("FlowContext", () => {
 			getUrlParam: () => null,
 			getAllUrlParams: () => ({}),
 			urlParams: {},
+			isReadOnly: false,
+			remotePage: null,
+			expiredReason: null,
+			expiresAt: null,
+			extendSession: () => {},
+			isNavigating: false,
+			navigationError: null,
+			visitedPages: [],
+			canGoBack: false,
+			navigationDirection: null,
+			errors: {},
+			isValid: true,
+			validateCurrentPage: () => true,
+			createResumeToken: () => Promise.resolve(""),
 		};
 
 		render(
@@ -0,0 +1,175 @@
+import {
+	AsyncStateManager,
+	IndexedDBStateAdapter,
+} from "@/flow/asyncStateManagers";
+import { initializeFlow } from "@/flow/graphHelpers";
+import type { AsyncFlowStateStorage, FlowStateByPage } from "@/flow/types";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+function createFakeAdapter(initial: Record<string, FlowStateByPage> = {}) {
+	const stored = new Map(Object.entries(initial));
+	const adapter: AsyncFlowStateStorage = {
+		load: vi.fn(async (uuid: string) => stored.get(uuid) ?? null),
+		save: vi.fn(async (uuid: string, state: FlowStateByPage) => {
+			stored.set(uuid, structuredClone(state));
+		}),
+		remove: vi.fn(async (uuid: string) => {
+			stored.delete(uuid);
+		}),
+	};
+	return { adapter, stored };
+}
+
+describe("asyncStateManagers", () => {
+	const graph = initializeFlow(
+		[{ currentPage: "a", nextPage: "b" }, { currentPage: "b" }],
+		"a",
+	);
+
+	describe("AsyncStateManager", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("hydrate loads stored state into the cache once", async () => {
+			const { adapter } = createFakeAdapter({ u1: { a: { name: "Alice" } } });
+			const manager = new AsyncStateManager(adapter);
+			expect(manager.hasState("u1")).toBe(false);
+
+			await manager.hydrate("u1");
+			await manager.hydrate("u1");
+
+			expect(adapter.load).toHaveBeenCalledTimes(1);
+			expect(manager.hasState("u1")).toBe(true);
+			expect(manager.getState("u1", "a")).toEqual({ name: "Alice" });
+		});
+
+		it("hydrate leaves hasState false when nothing is stored", async () => {
+			const { adapter } = createFakeAdapter();
+			const manager = new AsyncStateManager(adapter);
+			await manager.hydrate("missing");
+			expect(manager.hasState("missing")).toBe(false);
+		});
+
+		it("writes update the cache synchronously and debounce saves", async () => {
+			const { adapter, stored } = createFakeAdapter();
+			const manager = new AsyncStateManager(adapter, { debounceMs: 100 });
+
+			manager.setState("u2", "a", "name", "A");
+			manager.setState("u2", "a", "name", "Al");
+			manager.setStateBatch("u2", "b", { plan: "pro" });
+
+			expect(manager.getAllState(graph, "u2")).toEqual({
+				a: { name: "Al" },
+				b: { plan: "pro" },
+			});
+			expect(adapter.save).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(adapter.save).toHaveBeenCalledTimes(1);
+			expect(stored.get("u2")).toEqual({
+				a: { name: "Al" },
+				b: { plan: "pro" },
+			});
+		});
+
+		it("flush persists pending writes immediately", async () => {
+			const { adapter, stored } = createFakeAdapter();
+			const manager = new AsyncStateManager(adapter);
+			manager.preRegisterState(graph, "u3");
+			await manager.flush();
+			expect(stored.get("u3")).toEqual({ a: {}, b: {} });
+		});
+
+		it("adopts the state returned by saveMerged (e.g. after a conflict)", async () => {
+			const { adapter } = createFakeAdapter();
+			adapter.saveMerged = vi.fn(async () => ({ a: { name: "Merged" } }));
+			const manager = new AsyncStateManager(adapter);
+
+			manager.setState("u5", "a", "name", "Local");
+			await manager.flush("u5");
+
+			expect(manager.getState("u5", "a")).toEqual({ name: "Merged" });
+		});
+
+		it("notifies subscribers when it adopts the saved state", async () => {
+			const { adapter } = createFakeAdapter();
+			adapter.saveMerged = vi.fn(async () => ({ a: { name: "Merged" } }));
+			const manager = new AsyncStateManager(adapter);
+			const listener = vi.fn();
+			const unsubscribe = manager.subscribe(listener);
+
+			manager.setState("u6", "a", "name", "Local");
+			await manager.flush("u6");
+			expect(listener).toHaveBeenCalledWith("u6");
+
+			unsubscribe();
+			manager.setState("u6", "a", "name", "Again");
+			await manager.flush("u6");
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it("clearState cancels pending writes and removes stored state", async () => {
+			const { adapter, stored } = createFakeAdapter({ u4: { a: { x: 1 } } });
+			const manager = new AsyncStateManager(adapter);
+			await manager.hydrate("u4");
+			manager.setState("u4", "a", "x", 2);
+			manager.clearState("u4");
+			await vi.runAllTimersAsync();
+
+			expect(adapter.save).not.toHaveBeenCalled();
+			expect(manager.hasState("u4")).toBe(false);
+			expect(stored.has("u4")).toBe(false);
+		});
+	});
+
+	describe("IndexedDBStateAdapter", () => {
+		it("save, load and remove round-trip", async () => {
+			const adapter = new IndexedDBStateAdapter({
+				indexedDB: new IDBFactory(),
+			});
+			expect(await adapter.load("u1")).toBeNull();
+
+			await adapter.save("u1", { a: { name: "Alice" }, b: {} });
+			expect(await adapter.load("u1")).toEqual({ a: { name: "Alice" }, b: {} });
+
+			await adapter.remove("u1");
+			expect(await adapter.load("u1")).toBeNull();
+		});
+
+		it("lets AsyncStateManager sweep stale flows it hasn't loaded", async () => {
+			const adapter = new IndexedDBStateAdapter({
+				indexedDB: new IDBFactory(),
+			});
+			await adapter.save("done", {
+				a: {},
+				__meta__: { createdAt: 1, updatedAt: 1, completedAt: 1 },
+			});
+			await adapter.save("active", { a: { x: 1 } });
+			expect((await adapter.list()).sort()).toEqual(["active", "done"]);
+
+			const isStale = vi.fn(
+				(_uuid: string, metadata: { completedAt?: number } | null) =>
+					!!metadata?.completedAt,
+			);
+			new AsyncStateManager(adapter).sweep(isStale);
+			await vi.waitFor(() => expect(isStale).toHaveBeenCalledTimes(2));
+
+			await vi.waitFor(async () =>
+				expect(await adapter.list()).toEqual(["active"]),
+			);
+		});
+
+		it("rejects when IndexedDB is unavailable", async () => {
+			const adapter = new IndexedDBStateAdapter({
+				indexedDB: undefined as unknown as IDBFactory,
+			});
+			await expect(adapter.load("u1")).rejects.toThrow(/not available/);
+		});
+	});
+});
@@ -0,0 +1,188 @@
+import { Flow } from "@/flow/Flow";
+import { useCrossTabSync } from "@/flow/crossTabSync";
+import type { CrossTabSyncConfig } from "@/flow/crossTabSync";
+import { MemoryStateManager } from "@/flow/flowStateManagers";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import { useFlow } from "@/flow/useFlow";
+import {
+	act,
+	cleanup,
+	render,
+	renderHook,
+	waitFor,
+	within,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+function renderTab(
+	config: Parameters<typeof useCrossTabSync>[0]["config"],
+	uuid = "abc",
+) {
+	const handlers = {
+		onRemoteState: vi.fn(),
+		onRemoteClear: vi.fn(),
+		onRemotePage: vi.fn(),
+	};
+	const hook = renderHook(() => useCrossTabSync({ config, uuid, ...handlers }));
+	return { ...hook, ...handlers };
+}
+
+describe("useCrossTabSync", () => {
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("delivers state updates and clears to other tabs with the same UUID", async () => {
+		const first = renderTab(true);
+		const second = renderTab(true);
+		const otherFlow = renderTab(true, "other");
+
+		first.result.current.broadcastState("pageA", { name: "Alice" });
+		await waitFor(() =>
+			expect(second.onRemoteState).toHaveBeenCalledWith("pageA", {
+				name: "Alice",
+			}),
+		);
+		expect(first.onRemoteState).not.toHaveBeenCalled();
+		expect(otherFlow.onRemoteState).not.toHaveBeenCalled();
+
+		first.result.current.broadcastClear();
+		await waitFor(() => expect(second.onRemoteClear).toHaveBeenCalled());
+	});
+
+	it("follow policy navigates other tabs", async () => {
+		const first = renderTab({ policy: "follow" });
+		const second = renderTab({ policy: "follow" });
+
+		first.result.current.broadcastPage("pageB");
+		await waitFor(() =>
+			expect(second.onRemotePage).toHaveBeenCalledWith("pageB"),
+		);
+		expect(second.result.current.remotePage).toBeNull();
+	});
+
+	it("warn policy exposes the remote page instead of navigating", async () => {
+		const first = renderTab({ policy: "warn" });
+		const second = renderTab({ policy: "warn" });
+
+		first.result.current.broadcastPage("pageB");
+		await waitFor(() => expect(second.result.current.remotePage).toBe("pageB"));
+		expect(second.onRemotePage).not.toHaveBeenCalled();
+	});
+
+	it("lock policy makes later tabs read-only until the owner closes", async () => {
+		const owner = renderTab({ policy: "lock" });
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const second = renderTab({ policy: "lock" });
+
+		await waitFor(() => expect(second.result.current.isReadOnly).toBe(true));
+		expect(owner.result.current.isReadOnly).toBe(false);
+
+		owner.unmount();
+		await waitFor(() => expect(second.result.current.isReadOnly).toBe(false));
+	});
+
+	it("does nothing when disabled", async () => {
+		const first = renderTab(false);
+		const second = renderTab(false);
+
+		first.result.current.broadcastState("pageA", { name: "Alice" });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(second.onRemoteState).not.toHaveBeenCalled();
+	});
+});
+
+function Step() {
+	const { currentPage, state, isReadOnly, updateState, goToNext } = useFlow();
+	return (
+		<>
+			<span>{`page ${currentPage} ${state.a?.name ?? ""}`.trim()}</span>
+			{isReadOnly && <span>read-only</span>}
+			<button type="button" onClick={() => updateState("name", "Alice")}>
+				set
+			</button>
+			<button type="button" onClick={goToNext}>
+				next
+			</button>
+		</>
+	);
+}
+
+const graph = initializeFlow([
+	{ currentPage: "a", nextPage: "b" },
+	{ currentPage: "b" },
+]);
+
+const componentLoaders = new Map(
+	["a", "b"].map((page) => [page, () => Promise.resolve({ default: Step })]),
+);
+
+/**
+ * Renders a Flow as one browser tab; tabs share the state manager like
+ * they would share localStorage
+ */
+function renderFlowTab(
+	stateManager: MemoryStateManager,
+	uuid: string,
+	crossTabSync: CrossTabSyncConfig,
+) {
+	const { container } = render(
+		<Flow
+			graph={graph}
+			config={{
+				componentLoaders,
+				urlParamsAdapter: createMemoryUrlParamsAdapter({ id: uuid, page: "a" }),
+				stateManager,
+				crossTabSync,
+			}}
+		/>,
+	);
+	return within(container);
+}
+
+describe("Flow with crossTabSync", () => {
+	afterEach(() => {
+		cleanup();
+		vi.restoreAllMocks();
+	});
+
+	it("follow policy moves other tabs to the same page", async () => {
+		const stateManager = new MemoryStateManager();
+		stateManager.preRegisterState(graph, "follow");
+		const first = renderFlowTab(stateManager, "follow", { policy: "follow" });
+		const second = renderFlowTab(stateManager, "follow", { policy: "follow" });
+		await first.findByText("page a");
+		await second.findByText("page a");
+
+		act(() => first.getByText("set").click());
+		expect(await second.findByText("page a Alice")).toBeInTheDocument();
+
+		act(() => first.getByText("next").click());
+		expect(await second.findByText("page b Alice")).toBeInTheDocument();
+	});
+
+	it("lock policy keeps later tabs from changing state or navigating", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const stateManager = new MemoryStateManager();
+		stateManager.preRegisterState(graph, "lock");
+		const owner = renderFlowTab(stateManager, "lock", { policy: "lock" });
+		await owner.findByText("page a");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const locked = renderFlowTab(stateManager, "lock", { policy: "lock" });
+		await locked.findByText("read-only");
+
+		act(() => locked.getByText("set").click());
+		act(() => locked.getByText("next").click());
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(locked.getByText("page a")).toBeInTheDocument();
+		expect(owner.getByText("page a")).toBeInTheDocument();
+		expect(stateManager.getState("lock", "a")).toEqual({});
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("read-only"));
+
+		// The owner's edits still reach the locked tab
+		act(() => owner.getByText("set").click());
+		expect(await locked.findByText("page a Alice")).toBeInTheDocument();
+	});
+});
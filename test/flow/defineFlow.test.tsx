@@ -0,0 +1,122 @@
+import { FlowContext } from "@/flow/FlowContext";
+import { defineFlow } from "@/flow/defineFlow";
+import { getNextPage, validateGraph } from "@/flow/graphHelpers";
+import type { FlowContextValue } from "@/flow/types";
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const onboarding = defineFlow<{
+	account: { email: string };
+	plan: { plan: "pro" | "basic" };
+	billing: { card: string };
+	done: Record<string, never>;
+}>()({
+	entryPoint: "account",
+	nodes: {
+		account: { nextPage: "plan" },
+		plan: {
+			nextPage: (state) => (state.plan?.plan === "pro" ? "billing" : "done"),
+		},
+		billing: {
+			nextPage: "done",
+			previousPageFallback: "plan",
+			shouldSkip: (state) =>
+				state.account?.email?.endsWith("@corp.com") ?? false,
+		},
+		done: {},
+	},
+});
+
+// Compile-time checks: these must fail to type-check
+defineFlow<{ a: { x: number } }>()({
+	entryPoint: "a",
+	nodes: {
+		// @ts-expect-error - "typo" is not a declared page id
+		a: { nextPage: "typo" },
+	},
+});
+function TypeChecks() {
+	const { goToPage, stateKey, updateState } = onboarding.useFlow("account");
+	// @ts-expect-error - "typo" is not a declared page id
+	goToPage("typo");
+	// @ts-expect-error - "plan" is not a key of the account page state
+	stateKey("plan");
+	// @ts-expect-error - email is a string
+	updateState("email", 42);
+	const [email] = stateKey("email");
+	const typed: string | undefined = email;
+	return typed;
+}
+void TypeChecks;
+
+function AccountPage() {
+	const { stateKey } = onboarding.useFlow("account");
+	const [email, setEmail] = stateKey("email");
+	return (
+		<button type="button" onClick={() => setEmail("a@b.c")}>
+			{email ?? "none"}
+		</button>
+	);
+}
+
+describe("defineFlow", () => {
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("builds a valid graph from the typed definition", () => {
+		expect(onboarding.pages).toEqual(["account", "plan", "billing", "done"]);
+		expect(onboarding.graph.entryPoint).toBe("account");
+		expect(validateGraph(onboarding.graph).valid).toBe(true);
+		expect(
+			getNextPage(onboarding.graph, "plan", { plan: { plan: "pro" } }),
+		).toBe("billing");
+		expect(
+			getNextPage(onboarding.graph, "plan", {
+				account: { email: "me@corp.com" },
+				plan: { plan: "pro" },
+			}),
+		).toBe("done");
+	});
+
+	it("typed useFlow reads and writes the page's state through context", () => {
+		const updateState = vi.fn();
+		const value = {
+			currentPage: "account",
+			getPageState: () => ({ email: "me@x.io" }),
+			updateState,
+		} as unknown as FlowContextValue;
+		render(
+			<FlowContext.Provider value={{ ...value, hasNext: () => false }}>
+				<AccountPage />
+			</FlowContext.Provider>,
+		);
+		screen.getByText("me@x.io").click();
+		expect(updateState).toHaveBeenCalledWith("email", "a@b.c");
+	});
+
+	it("warns once when used on another page, not on every render", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const value = {
+			currentPage: "plan",
+			getPageState: () => ({}),
+			hasNext: () => false,
+		} as unknown as FlowContextValue;
+		const { rerender } = render(
+			<FlowContext.Provider value={value}>
+				<AccountPage />
+			</FlowContext.Provider>,
+		);
+		rerender(
+			<FlowContext.Provider value={{ ...value }}>
+				<AccountPage />
+			</FlowContext.Provider>,
+		);
+
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn).toHaveBeenCalledWith(
+			'useFlow("account") is used while the current page is "plan"',
+		);
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,106 @@
+import {
+	enumerateFlowPaths,
+	enumerateFlowPathsAsync,
+} from "@/flow/flowCoverage";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { describe, expect, it } from "vitest";
+
+const graph = initializeFlow([
+	{ currentPage: "account", nextPage: "plan" },
+	{
+		currentPage: "plan",
+		nextPage: (s) => (s.plan?.type === "pro" ? "billing" : "done"),
+		branches: ["billing", "done"],
+	},
+	{
+		currentPage: "billing",
+		nextPage: (s) => (s.billing?.invoice ? "invoice" : "done"),
+		branches: ["invoice", "done"],
+	},
+	{
+		currentPage: "invoice",
+		nextPage: "done",
+		shouldSkip: (s) => s.account?.country === "US",
+	},
+	{ currentPage: "done", terminal: true },
+]);
+
+describe("enumerateFlowPaths", () => {
+	it("forks on candidate values of shown pages", () => {
+		const report = enumerateFlowPaths(graph, {
+			pageValues: {
+				plan: [{ type: "basic" }, { type: "pro" }],
+				billing: [{ invoice: false }, { invoice: true }],
+			},
+		});
+
+		expect(report.routes.map((route) => route.pages)).toEqual([
+			["account", "plan", "done"],
+			["account", "plan", "billing", "done"],
+			["account", "plan", "billing", "invoice", "done"],
+		]);
+		expect(report.routes[2].state).toEqual({
+			plan: { type: "pro" },
+			billing: { invoice: true },
+		});
+		expect(report.uncoveredNodes).toEqual([]);
+		expect(report.uncoveredEdges).toEqual([]);
+	});
+
+	it("reports nodes and edges no route exercised", () => {
+		const report = enumerateFlowPaths(graph, {
+			fixtures: [
+				{ account: { country: "US" }, plan: { type: "pro" } },
+				{ account: { country: "US" } },
+			],
+			pageValues: { billing: [{ invoice: true }] },
+		});
+
+		expect(report.routes).toHaveLength(2);
+		expect(report.routes[0].skipped).toEqual([
+			{ page: "invoice", reason: "shouldSkip" },
+		]);
+		expect(report.uncoveredNodes).toEqual(["invoice"]);
+		expect(report.coveredEdges).toContainEqual({
+			from: "billing",
+			to: "invoice",
+		});
+		expect(report.uncoveredEdges).toEqual([{ from: "billing", to: "done" }]);
+	});
+
+	it("deduplicates fixtures that take the same route", () => {
+		const report = enumerateFlowPaths(graph, {
+			fixtures: [{ plan: { type: "basic" } }, { plan: { type: "free" } }],
+		});
+		expect(report.routes).toHaveLength(1);
+		expect(report.routes[0].state).toEqual({ plan: { type: "basic" } });
+	});
+
+	it("awaits async resolvers in enumerateFlowPathsAsync", async () => {
+		const asyncGraph = initializeFlow([
+			{
+				currentPage: "plan",
+				nextPage: async (s) => (s.plan?.type === "pro" ? "billing" : "done"),
+				branches: ["billing", "done"],
+			},
+			{ currentPage: "billing", nextPage: "done" },
+			{ currentPage: "done" },
+		]);
+		const options = {
+			pageValues: { plan: [{ type: "basic" }, { type: "pro" }] },
+		};
+
+		const sync = enumerateFlowPaths(asyncGraph, options);
+		expect(sync.routes.map((route) => route.stuckReason)).toEqual([
+			"async-resolver",
+		]);
+
+		const report = await enumerateFlowPathsAsync(asyncGraph, options);
+		expect(report.routes.map((route) => route.pages)).toEqual([
+			["plan", "done"],
+			["plan", "billing", "done"],
+		]);
+		expect(report.uncoveredNodes).toEqual([]);
+		expect(report.uncoveredEdges).toEqual([]);
+	});
+});
@@ -0,0 +1,54 @@
+import { getExpiredReason, getExpiresAt, isStaleFlow } from "@/flow/flowExpiry";
+import { describe, expect, it } from "vitest";
+
+describe("flowExpiry", () => {
+	const metadata = { createdAt: 1_000, updatedAt: 5_000, version: "1" };
+
+	it("getExpiresAt returns null without expiration or metadata", () => {
+		expect(getExpiresAt(metadata, undefined)).toBeNull();
+		expect(getExpiresAt(metadata, {})).toBeNull();
+		expect(getExpiresAt(null, { maxAge: 10 })).toBeNull();
+	});
+
+	it("getExpiresAt uses the earliest of max age and idle timeout", () => {
+		expect(getExpiresAt(metadata, { maxAge: 10_000 })).toBe(11_000);
+		expect(getExpiresAt(metadata, { idleTimeout: 2_000 })).toBe(7_000);
+		expect(getExpiresAt(metadata, { maxAge: 10_000, idleTimeout: 2_000 })).toBe(
+			7_000,
+		);
+	});
+
+	it("getExpiredReason reports timeout once the deadline passes", () => {
+		const options = { expiration: { idleTimeout: 2_000 } };
+		expect(getExpiredReason(metadata, options, 6_999)).toBeNull();
+		expect(getExpiredReason(metadata, options, 7_000)).toBe("timeout");
+	});
+
+	it("getExpiredReason reports completed and version mismatches", () => {
+		expect(
+			getExpiredReason({ ...metadata, completedAt: 6_000 }, {}, 6_000),
+		).toBe("completed");
+		expect(getExpiredReason(metadata, { version: "2" }, 0)).toBe(
+			"version-mismatch",
+		);
+		expect(getExpiredReason(metadata, { version: "1" }, 0)).toBeNull();
+	});
+
+	it("getExpiredReason treats missing metadata as valid", () => {
+		expect(getExpiredReason(null, { version: "2" })).toBeNull();
+	});
+
+	it("isStaleFlow keeps ended flows for the retention period", () => {
+		const completed = { ...metadata, completedAt: 6_000 };
+		expect(isStaleFlow(completed, { retention: 1_000 }, 6_999)).toBe(false);
+		expect(isStaleFlow(completed, { retention: 1_000 }, 7_000)).toBe(true);
+
+		const expiration = { idleTimeout: 2_000, retention: 1_000 };
+		expect(isStaleFlow(metadata, expiration, 7_999)).toBe(false);
+		expect(isStaleFlow(metadata, expiration, 8_000)).toBe(true);
+
+		// Running flows and flows without metadata are kept
+		expect(isStaleFlow(metadata, { retention: 0 }, 1e12)).toBe(false);
+		expect(isStaleFlow(null, { retention: 0 }, 1e12)).toBe(false);
+	});
+});
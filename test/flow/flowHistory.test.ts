@@ -0,0 +1,58 @@
+import {
+	EMPTY_FLOW_HISTORY,
+	backVisit,
+	pushVisit,
+	replaceVisit,
+	restoreHistory,
+	syncVisit,
+} from "@/flow/flowHistory";
+import { describe, expect, it } from "vitest";
+
+describe("flowHistory", () => {
+	const history = { visitedPages: ["a", "b", "c"], navigationDirection: null };
+
+	it("pushVisit and replaceVisit add or replace the current page", () => {
+		expect(pushVisit(history, "d", "forward")).toEqual({
+			visitedPages: ["a", "b", "c", "d"],
+			navigationDirection: "forward",
+		});
+		expect(replaceVisit(history, "d", "jump")).toEqual({
+			visitedPages: ["a", "b", "d"],
+			navigationDirection: "jump",
+		});
+		expect(
+			replaceVisit(EMPTY_FLOW_HISTORY, "a", "forward").visitedPages,
+		).toEqual(["a"]);
+	});
+
+	it("backVisit drops the pages after the one gone back to", () => {
+		expect(backVisit(history, 0)).toEqual({
+			visitedPages: ["a"],
+			navigationDirection: "back",
+		});
+	});
+
+	it("syncVisit treats visited pages as going back and others as jumps", () => {
+		expect(syncVisit(history, "c")).toBe(history);
+		expect(syncVisit(history, "b")).toEqual({
+			visitedPages: ["a", "b"],
+			navigationDirection: "back",
+		});
+		expect(syncVisit(history, "a").visitedPages).toEqual(["a"]);
+		expect(syncVisit(history, "x")).toEqual({
+			visitedPages: ["a", "b", "c", "x"],
+			navigationDirection: "jump",
+		});
+	});
+
+	it("restoreHistory ends at the page shown without a direction", () => {
+		expect(restoreHistory(["a", "b", "c"], "b")).toEqual({
+			visitedPages: ["a", "b"],
+			navigationDirection: null,
+		});
+		expect(restoreHistory(undefined, "c")).toEqual({
+			visitedPages: ["c"],
+			navigationDirection: null,
+		});
+	});
+});
@@ -1,4 +1,8 @@
-import { WizardStateManager } from "@/flow/flowStateManagers";
+import {
+	LocalStorageStateManager,
+	MemoryStateManager,
+	WizardStateManager,
+} from "@/flow/flowStateManagers";
 import { initializeFlow } from "@/flow/graphHelpers";
 import { describe, expect, it } from "vitest";
 
@@ -67,4 +71,86 @@ describe("flowStateManagers", () => {
 		expect(manager.getState("uuid-page", "a")).toEqual({});
 		expect(manager.getState("uuid-page", "b")).toEqual({ b1: 2 });
 	});
+
+	it("LocalStorageStateManager persists to localStorage", () => {
+		const manager = new LocalStorageStateManager("flow-test:");
+		manager.setState("uuid-local", "a", "draft", "hello");
+		expect(window.localStorage.getItem("flow-test:uuid-local")).not.toBeNull();
+		expect(window.sessionStorage.getItem("flow-test:uuid-local")).toBeNull();
+		expect(
+			new LocalStorageStateManager("flow-test:").getState("uuid-local", "a"),
+		).toEqual({
+			draft: "hello",
+		});
+		manager.clearState("uuid-local");
+		expect(manager.hasState("uuid-local")).toBe(false);
+	});
+
+	it("WizardStateManager accepts a custom storage getter", () => {
+		const manager = new WizardStateManager("flow-test:", () => null);
+		manager.setState("uuid-none", "a", "k", "v");
+		expect(manager.hasState("uuid-none")).toBe(false);
+		expect(manager.getState("uuid-none", "a")).toEqual({});
+	});
+
+	it("MemoryStateManager keeps state per instance without touching storage", () => {
+		const manager = new MemoryStateManager();
+		expect(manager.hasState("uuid-mem")).toBe(false);
+		manager.preRegisterState(graph, "uuid-mem");
+		expect(manager.hasState("uuid-mem")).toBe(true);
+		manager.setState("uuid-mem", "a", "x", 1);
+		manager.setStateBatch("uuid-mem", "b", { y: 2, z: 3 });
+		expect(manager.getAllState(graph, "uuid-mem")).toEqual({
+			a: { x: 1 },
+			b: { y: 2, z: 3 },
+			c: {},
+		});
+		manager.clearPageState("uuid-mem", "b");
+		expect(manager.getState("uuid-mem", "b")).toEqual({});
+		expect(new MemoryStateManager().hasState("uuid-mem")).toBe(false);
+		manager.clearState("uuid-mem");
+		expect(manager.hasState("uuid-mem")).toBe(false);
+	});
+
+	it("stores metadata next to page entries without exposing it as a page", () => {
+		const metadata = { createdAt: 1, updatedAt: 2, version: "v1" };
+		for (const manager of [
+			new WizardStateManager("flow-test:"),
+			new MemoryStateManager(),
+		]) {
+			expect(manager.getMetadata("uuid-meta")).toBeNull();
+			manager.setState("uuid-meta", "a", "x", 1);
+			manager.setMetadata("uuid-meta", metadata);
+			expect(manager.getMetadata("uuid-meta")).toEqual(metadata);
+			expect(manager.getAllState(graph, "uuid-meta")).toEqual({ a: { x: 1 } });
+			manager.clearState("uuid-meta");
+			expect(manager.getMetadata("uuid-meta")).toBeNull();
+		}
+	});
+
+	it("sweep removes the flows the predicate marks as stale", () => {
+		window.localStorage.setItem("unrelated", "keep");
+		for (const manager of [
+			new LocalStorageStateManager("flow-sweep:"),
+			new MemoryStateManager(),
+		]) {
+			manager.setState("done", "a", "x", 1);
+			manager.setMetadata("done", {
+				createdAt: 1,
+				updatedAt: 1,
+				completedAt: 1,
+			});
+			manager.setState("active", "a", "x", 2);
+			manager.setState("other", "a", "x", 3);
+
+			manager.sweep(
+				(uuid, metadata) => uuid !== "other" && !!metadata?.completedAt,
+			);
+
+			expect(manager.hasState("done")).toBe(false);
+			expect(manager.hasState("active")).toBe(true);
+			expect(manager.hasState("other")).toBe(true);
+		}
+		expect(window.localStorage.getItem("unrelated")).toBe("keep");
+	});
 });
@@ -1,6 +1,7 @@
 import {
 	getNextNonSkippedPage,
 	getNextPage,
+	getNextPageAsync,
 	getNode,
 	getPagesInOrder,
 	getPreviousPage,
@@ -8,9 +9,11 @@ import {
 	registerNode,
 	resolveNextPage,
 	shouldSkipStep,
+	simulateFlow,
+	simulateFlowAsync,
 	validateGraph,
 } from "@/flow/graphHelpers";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 describe("graphHelpers", () => {
 	it("initializeFlow creates graph from nodes and sets entry point", () => {
@@ -128,4 +131,280 @@ describe("graphHelpers", () => {
 		]);
 		expect(getNextNonSkippedPage(graph, "b", {})).toBe("b");
 	});
+
+	describe("declared branches", () => {
+		const pickPlan = (s: Record<string, Record<string, unknown>>) =>
+			s.plan?.type === "pro" ? "pro" : "basic";
+
+		it("validateGraph reports non-existent branch targets", () => {
+			const graph = initializeFlow([
+				{ currentPage: "plan", nextPage: pickPlan, branches: ["pro", "basic"] },
+				{ currentPage: "pro" },
+			]);
+			const result = validateGraph(graph);
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				'Node "plan" declares non-existent branch target "basic"',
+			]);
+		});
+
+		it("getPagesInOrder follows declared branches of resolvers", () => {
+			const graph = initializeFlow(
+				[
+					{ currentPage: "done" },
+					{ currentPage: "basic", nextPage: "done" },
+					{ currentPage: "pro", nextPage: "done" },
+					{
+						currentPage: "plan",
+						nextPage: pickPlan,
+						branches: ["pro", "basic"],
+					},
+				],
+				"plan",
+			);
+			expect(getPagesInOrder(graph)).toEqual(["plan", "pro", "done", "basic"]);
+		});
+
+		it("resolveNextPage warns when a resolver returns an undeclared page", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			const node = {
+				currentPage: "plan",
+				nextPage: pickPlan,
+				branches: ["pro"],
+			};
+			expect(resolveNextPage(node, { plan: { type: "pro" } })).toBe("pro");
+			expect(warn).not.toHaveBeenCalled();
+			expect(resolveNextPage(node, {})).toBe("basic");
+			expect(warn).toHaveBeenCalledWith(
+				expect.stringContaining('returned "basic"'),
+			);
+			warn.mockRestore();
+		});
+	});
+
+	describe("validateGraph diagnostics", () => {
+		const codes = (graph: ReturnType<typeof initializeFlow>) =>
+			validateGraph(graph).diagnostics.map((d) => [d.code, d.node]);
+
+		it("returns no diagnostics for a well-formed flow", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c", previousPageFallback: "a" },
+				{ currentPage: "c", terminal: true },
+			]);
+			expect(validateGraph(graph)).toEqual({
+				valid: true,
+				errors: [],
+				diagnostics: [],
+			});
+		});
+
+		it("reports unreachable nodes and unmarked dead ends as warnings", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b" },
+				{ currentPage: "orphan", nextPage: "b" },
+			]);
+			const result = validateGraph(graph);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toContainEqual({
+				code: "unreachable-node",
+				severity: "warning",
+				node: "orphan",
+				message: 'Node "orphan" is not reachable from entry point "a"',
+			});
+			expect(codes(graph)).toContainEqual(["dead-end", "b"]);
+		});
+
+		it("skips reachability when a resolver has no declared branches", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: () => "b" },
+				{ currentPage: "b", terminal: true },
+			]);
+			expect(codes(graph)).toEqual([]);
+		});
+
+		it("reports cycles that can never finish", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c" },
+				{ currentPage: "c", nextPage: "b" },
+			]);
+			const result = validateGraph(graph);
+			expect(result.valid).toBe(false);
+			expect(codes(graph)).toEqual([["cycle-without-exit", "b"]]);
+			expect(result.errors).toEqual([
+				'Pages "b", "c" form a cycle with no way to finish the flow',
+			]);
+		});
+
+		it("accepts cycles with an exit through a declared branch", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{
+					currentPage: "b",
+					nextPage: (s) => (s.b?.retry ? "a" : "done"),
+					branches: ["a", "done"],
+				},
+				{ currentPage: "done", terminal: true },
+			]);
+			expect(codes(graph)).toEqual([]);
+		});
+
+		it("reports previousPageFallback that does not lead forward", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "c" },
+				{ currentPage: "c", previousPageFallback: "a", terminal: true },
+			]);
+			expect(codes(graph)).toEqual([["inconsistent-previous-page", "c"]]);
+		});
+
+		it("reports pages missing from componentLoaders", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", terminal: true },
+			]);
+			const result = validateGraph(graph, {
+				componentLoaders: new Map([["a", () => null]]),
+			});
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics).toEqual([
+				{
+					code: "missing-component-loader",
+					severity: "error",
+					node: "b",
+					message: 'Node "b" has no component loader',
+				},
+			]);
+		});
+	});
+
+	describe("simulateFlow", () => {
+		const graph = initializeFlow([
+			{ currentPage: "account", nextPage: "plan" },
+			{
+				currentPage: "plan",
+				nextPage: (s) => (s.plan?.type === "pro" ? "billing" : "done"),
+				branches: ["billing", "done"],
+			},
+			{
+				currentPage: "billing",
+				nextPage: "review",
+				shouldSkip: (s) => s.plan?.prepaid === true,
+			},
+			{ currentPage: "review", nextPage: "done" },
+			{ currentPage: "done", terminal: true },
+		]);
+
+		it("returns the pages a user with the given answers sees", () => {
+			expect(simulateFlow(graph, { plan: { type: "basic" } })).toEqual({
+				pages: ["account", "plan", "done"],
+				skipped: [],
+				status: "completed",
+				endPage: "done",
+			});
+		});
+
+		it("reports skipped pages", () => {
+			const result = simulateFlow(graph, {
+				plan: { type: "pro", prepaid: true },
+			});
+			expect(result.pages).toEqual(["account", "plan", "review", "done"]);
+			expect(result.skipped).toEqual([
+				{ page: "billing", reason: "shouldSkip" },
+			]);
+		});
+
+		it("starts from options.startPage", () => {
+			expect(simulateFlow(graph, {}, { startPage: "review" }).pages).toEqual([
+				"review",
+				"done",
+			]);
+		});
+
+		it("reports cycles", () => {
+			const cyclic = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", nextPage: "a" },
+			]);
+			expect(simulateFlow(cyclic, {})).toMatchObject({
+				pages: ["a", "b"],
+				status: "stuck",
+				stuckReason: "cycle",
+				endPage: "a",
+			});
+		});
+
+		it("reports missing nodes and null resolvers", () => {
+			const missing = initializeFlow([{ currentPage: "a", nextPage: "gone" }]);
+			expect(simulateFlow(missing, {})).toMatchObject({
+				status: "stuck",
+				stuckReason: "missing-node",
+				endPage: "a",
+				missingPage: "gone",
+			});
+
+			const nullResolver = initializeFlow([
+				{ currentPage: "a", nextPage: () => null },
+			]);
+			expect(simulateFlow(nullResolver, {})).toMatchObject({
+				pages: ["a"],
+				status: "stuck",
+				stuckReason: "null-resolver",
+				endPage: "a",
+			});
+		});
+
+		it("reports async resolvers instead of guessing, and awaits them in simulateFlowAsync", async () => {
+			const asyncGraph = initializeFlow([
+				{ currentPage: "a", nextPage: async () => "b" },
+				{ currentPage: "b", nextPage: "c", shouldSkip: async () => true },
+				{ currentPage: "c" },
+			]);
+
+			expect(simulateFlow(asyncGraph, {})).toMatchObject({
+				pages: ["a"],
+				status: "stuck",
+				stuckReason: "async-resolver",
+				endPage: "a",
+			});
+			expect(await simulateFlowAsync(asyncGraph, {})).toEqual({
+				pages: ["a", "c"],
+				skipped: [{ page: "b", reason: "shouldSkip" }],
+				status: "completed",
+				endPage: "c",
+			});
+		});
+	});
+
+	describe("async resolvers", () => {
+		it("getNextPageAsync stays synchronous for sync flows", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: "b" },
+				{ currentPage: "b", shouldSkip: () => false },
+			]);
+			expect(getNextPageAsync(graph, "a", {})).toBe("b");
+		});
+
+		it("getNextPageAsync awaits async resolvers and skip predicates", async () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: async () => "b" },
+				{ currentPage: "b", nextPage: "c", shouldSkip: async () => true },
+				{ currentPage: "c" },
+			]);
+			const nextPage = getNextPageAsync(graph, "a", {});
+			expect(nextPage).toBeInstanceOf(Promise);
+			await expect(nextPage).resolves.toBe("c");
+		});
+
+		it("sync helpers treat pending resolvers as no next page", () => {
+			const graph = initializeFlow([
+				{ currentPage: "a", nextPage: async () => "b" },
+				{ currentPage: "b", shouldSkip: async () => true },
+			]);
+			expect(getNextPage(graph, "a", {})).toBeNull();
+			expect(shouldSkipStep(graph, "b", {})).toBe(false);
+		});
+	});
 });
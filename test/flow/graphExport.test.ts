@@ -0,0 +1,131 @@
+import {
+	describeGraph,
+	graphToDot,
+	graphToJSON,
+	graphToMermaid,
+} from "@/flow/graphExport";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { describe, expect, it } from "vitest";
+
+const graph = initializeFlow([
+	{ currentPage: "account", nextPage: "plan" },
+	{
+		currentPage: "plan",
+		nextPage: (s) => (s.plan?.type === "pro" ? "billing" : "done"),
+		branches: ["billing", "done"],
+		previousPageFallback: "account",
+	},
+	{
+		currentPage: "billing",
+		nextPage: "done",
+		previousPageFallback: "plan",
+		shouldSkip: (s) => s.plan?.prepaid === true,
+	},
+	{ currentPage: "done", terminal: true },
+]);
+
+describe("graphExport", () => {
+	it("describeGraph lists nodes and next, branch and fallback edges", () => {
+		const description = describeGraph(graph);
+		expect(description.entryPoint).toBe("account");
+		expect(description.nodes).toEqual([
+			{
+				id: "account",
+				nextPage: "static",
+				conditional: false,
+				terminal: false,
+				highlighted: false,
+			},
+			{
+				id: "plan",
+				nextPage: "function",
+				conditional: false,
+				terminal: false,
+				highlighted: false,
+			},
+			{
+				id: "billing",
+				nextPage: "static",
+				conditional: true,
+				terminal: false,
+				highlighted: false,
+			},
+			{
+				id: "done",
+				nextPage: "none",
+				conditional: false,
+				terminal: true,
+				highlighted: false,
+			},
+		]);
+		expect(description.edges.map((e) => [e.from, e.to, e.kind])).toEqual([
+			["account", "plan", "next"],
+			["plan", "billing", "branch"],
+			["plan", "done", "branch"],
+			["plan", "account", "fallback"],
+			["billing", "done", "next"],
+			["billing", "plan", "fallback"],
+		]);
+	});
+
+	it("describeGraph highlights a traversed path", () => {
+		const description = describeGraph(graph, {
+			highlightPath: ["account", "plan", "done", "account"],
+		});
+		expect(
+			description.nodes.filter((n) => n.highlighted).map((n) => n.id),
+		).toEqual(["account", "plan", "done"]);
+		expect(
+			description.edges
+				.filter((e) => e.highlighted)
+				.map((e) => [e.from, e.to, e.kind]),
+		).toEqual([
+			["account", "plan", "next"],
+			["plan", "done", "branch"],
+			["done", "account", "path"],
+		]);
+	});
+
+	it("graphToJSON is stable across calls", () => {
+		const json = graphToJSON(graph);
+		expect(json).toBe(graphToJSON(graph));
+		expect(JSON.parse(json)).toEqual(describeGraph(graph));
+	});
+
+	it("graphToMermaid emits a flowchart with shapes, edges and highlights", () => {
+		expect(
+			graphToMermaid(graph, { highlightPath: ["account", "plan"] }),
+		).toBe(`flowchart TD
+	n0["account"]
+	n1["plan"]
+	n2{{"billing (conditional)"}}
+	n3(["done"])
+	start((start)) --> n0
+	n0 --> n1
+	n1 -->|branch| n2
+	n1 -->|branch| n3
+	n1 -.->|fallback| n0
+	n2 --> n3
+	n2 -.->|fallback| n1
+	classDef highlighted stroke:#e11d48,stroke-width:3px
+	class n0,n1 highlighted
+	linkStyle 1 stroke:#e11d48,stroke-width:3px`);
+	});
+
+	it("graphToDot emits a digraph and escapes page ids", () => {
+		const dot = graphToDot(
+			initializeFlow([
+				{ currentPage: 'say "hi"', nextPage: "end" },
+				{ currentPage: "end", terminal: true },
+			]),
+		);
+		expect(dot).toBe(`digraph flow {
+	rankdir=TB;
+	"__start__" [shape=point];
+	"__start__" -> "say \\"hi\\"";
+	"say \\"hi\\"" [label="say \\"hi\\""];
+	"end" [label="end", peripheries=2];
+	"say \\"hi\\"" -> "end";
+}`);
+	});
+});
@@ -0,0 +1,114 @@
+import { Flow } from "@/flow/Flow";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { createHashParamsAdapter } from "@/flow/hashParams";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("hashParams", () => {
+	beforeEach(() => {
+		window.history.replaceState({}, "", "/embed/app.html?host=legacy");
+	});
+
+	afterEach(() => {
+		cleanup();
+		vi.restoreAllMocks();
+	});
+
+	it("keeps params as a query string in the hash", () => {
+		const adapter = createHashParamsAdapter();
+		const historyLength = window.history.length;
+
+		adapter.setParam("id", "abc");
+		adapter.setParam("page", "a");
+		adapter.replaceParam("page", "b");
+
+		expect(window.location.hash).toBe("#id=abc&page=b");
+		expect(window.location.pathname + window.location.search).toBe(
+			"/embed/app.html?host=legacy",
+		);
+		expect(window.history.length).toBe(historyLength + 2);
+		expect(adapter.getAllParams()).toEqual({ id: "abc", page: "b" });
+
+		adapter.replaceParams({ page: "c" });
+		expect(adapter.getParam("id")).toBeNull();
+		expect(adapter.getParam("page")).toBe("c");
+	});
+
+	it("keeps params as path segments in the hash with a template", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		window.location.hash = "#/abc/a";
+		const adapter = createHashParamsAdapter({ template: "/[id]/[page]" });
+
+		expect(adapter.getAllParams()).toEqual({ id: "abc", page: "a" });
+
+		adapter.setParam("page", "b");
+		expect(window.location.hash).toBe("#/abc/b");
+
+		adapter.setParam("other", "x");
+		expect(warn).toHaveBeenCalledWith(
+			'Parameter "other" is not defined in hash template: /[id]/[page]',
+		);
+		expect(window.location.hash).toBe("#/abc/b");
+	});
+
+	it("notifies subscribers on hashchange, popstate and its own updates", () => {
+		const adapter = createHashParamsAdapter();
+		const listener = vi.fn();
+		const unsubscribe = adapter.subscribe?.(listener);
+
+		adapter.setParam("page", "a");
+		window.dispatchEvent(new HashChangeEvent("hashchange"));
+		window.dispatchEvent(new PopStateEvent("popstate"));
+		expect(listener).toHaveBeenCalledTimes(3);
+
+		unsubscribe?.();
+		window.dispatchEvent(new HashChangeEvent("hashchange"));
+		expect(listener).toHaveBeenCalledTimes(3);
+	});
+
+	it("runs a flow in the hash and follows hash links", async () => {
+		function Step() {
+			const { currentPage, goToNext } = useFlow();
+			return (
+				<button type="button" onClick={goToNext}>
+					{`page ${currentPage}`}
+				</button>
+			);
+		}
+		const componentLoaders = new Map(
+			["a", "b"].map((page) => [
+				page,
+				() => Promise.resolve({ default: Step }),
+			]),
+		);
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b" },
+		]);
+		const adapter = createHashParamsAdapter({ template: "/[id]/[page]" });
+
+		render(
+			<Flow
+				graph={graph}
+				config={{ componentLoaders, urlParamsAdapter: adapter }}
+			/>,
+		);
+
+		await screen.findByText("page a");
+		// The UUID is written before the first page: its segment stays empty
+		const [, id] = window.location.hash.split("/");
+		expect(window.location.hash).toBe(`#/${id}/`);
+
+		act(() => screen.getByText("page a").click());
+		expect(await screen.findByText("page b")).toBeInTheDocument();
+		expect(window.location.hash).toBe(`#/${id}/b`);
+
+		// A link back to the first page, like <a href="#/id/a">
+		act(() => {
+			window.history.replaceState({}, "", `#/${id}/a`);
+			window.dispatchEvent(new HashChangeEvent("hashchange"));
+		});
+		expect(await screen.findByText("page a")).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,95 @@
+import { Flow } from "@/flow/Flow";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+describe("memoryUrlParams", () => {
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("pushes, replaces and moves through its own history", () => {
+		const adapter = createMemoryUrlParamsAdapter({ id: "abc" });
+		adapter.setParam("page", "a");
+		adapter.setParam("page", "b");
+		adapter.replaceParam("page", "c");
+
+		expect(adapter.getEntries()).toEqual([
+			{ id: "abc" },
+			{ id: "abc", page: "a" },
+			{ id: "abc", page: "c" },
+		]);
+
+		adapter.back();
+		expect(adapter.getParam("page")).toBe("a");
+		adapter.forward();
+		adapter.forward();
+		expect(adapter.getIndex()).toBe(2);
+
+		// Pushing drops the forward entries
+		adapter.go(-2);
+		adapter.setParam("page", "d");
+		expect(adapter.getEntries()).toHaveLength(2);
+		expect(adapter.getAllParams()).toEqual({ id: "abc", page: "d" });
+	});
+
+	it("notifies subscribers of every change until unsubscribed", () => {
+		const adapter = createMemoryUrlParamsAdapter();
+		const listener = vi.fn();
+		const unsubscribe = adapter.subscribe(listener);
+
+		adapter.setParam("page", "a");
+		adapter.back();
+		adapter.back(); // already on the first entry
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		unsubscribe();
+		adapter.forward();
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+
+	it("runs a flow without touching the page URL", async () => {
+		function Step() {
+			const { currentPage, goToNext } = useFlow();
+			return (
+				<button type="button" onClick={goToNext}>
+					{currentPage}
+				</button>
+			);
+		}
+		const componentLoaders = new Map(
+			["a", "b"].map((page) => [
+				page,
+				() => Promise.resolve({ default: Step }),
+			]),
+		);
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b" },
+		]);
+		window.history.replaceState({}, "", "/host?tab=1");
+		const adapter = createMemoryUrlParamsAdapter();
+
+		render(
+			<Flow
+				graph={graph}
+				config={{ componentLoaders, urlParamsAdapter: adapter }}
+			/>,
+		);
+
+		await screen.findByText("a");
+		act(() => screen.getByText("a").click());
+		expect(await screen.findByText("b")).toBeInTheDocument();
+		expect(adapter.getParam("page")).toBe("b");
+		expect(adapter.getParam("id")).toBeTruthy();
+
+		// Back through the adapter's history, like the browser's back button
+		act(() => adapter.back());
+		expect(await screen.findByText("a")).toBeInTheDocument();
+		expect(window.location.pathname + window.location.search).toBe(
+			"/host?tab=1",
+		);
+	});
+});
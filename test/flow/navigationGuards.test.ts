@@ -0,0 +1,123 @@
+import { initializeFlow } from "@/flow/graphHelpers";
+import { runNavigationGuards } from "@/flow/navigationGuards";
+import type { FlowNavigation } from "@/flow/types";
+import { describe, expect, it, vi } from "vitest";
+
+const navigation: FlowNavigation = {
+	from: "a",
+	to: "b",
+	direction: "forward",
+	state: {},
+};
+
+describe("runNavigationGuards", () => {
+	it("allows navigation when no guard objects", () => {
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b" },
+		]);
+		expect(
+			runNavigationGuards(graph, navigation, { confirm: () => true }),
+		).toBe("b");
+	});
+
+	it("runs canLeave, the flow guard and canEnter in order", () => {
+		const calls: string[] = [];
+		const graph = initializeFlow([
+			{
+				currentPage: "a",
+				nextPage: "b",
+				canLeave: (_state, direction) => {
+					calls.push(`leave:${direction}`);
+					return true;
+				},
+			},
+			{
+				currentPage: "b",
+				canEnter: () => {
+					calls.push("enter");
+					return false;
+				},
+			},
+		]);
+		const result = runNavigationGuards(graph, navigation, {
+			guard: ({ from, to }) => {
+				calls.push(`guard:${from}->${to}`);
+				return true;
+			},
+			confirm: () => true,
+		});
+		expect(result).toBeNull();
+		expect(calls).toEqual(["leave:forward", "guard:a->b", "enter"]);
+	});
+
+	it("redirects to an existing page", () => {
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b", canEnter: () => ({ redirect: "login" }) },
+			{ currentPage: "login" },
+		]);
+		expect(
+			runNavigationGuards(graph, navigation, { confirm: () => true }),
+		).toBe("login");
+	});
+
+	it("runs the guards of the page a guard redirects to", () => {
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b", canEnter: () => ({ redirect: "login" }) },
+			{ currentPage: "login", canEnter: () => ({ redirect: "blocked" }) },
+			{ currentPage: "blocked", canEnter: () => false },
+		]);
+		const guard = vi.fn((_navigation: FlowNavigation) => true as const);
+
+		expect(
+			runNavigationGuards(graph, navigation, { guard, confirm: () => true }),
+		).toBeNull();
+		expect(
+			guard.mock.calls.map(([{ to, direction }]) => [to, direction]),
+		).toEqual([
+			["b", "forward"],
+			["login", "jump"],
+			["blocked", "jump"],
+		]);
+	});
+
+	it("cancels redirect loops", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const graph = initializeFlow([
+			{ currentPage: "a", nextPage: "b" },
+			{ currentPage: "b", canEnter: () => ({ redirect: "c" }) },
+			{ currentPage: "c", canEnter: () => ({ redirect: "b" }) },
+		]);
+
+		expect(
+			runNavigationGuards(graph, navigation, { confirm: () => true }),
+		).toBeNull();
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining("redirected more than 10 times"),
+		);
+		warn.mockRestore();
+	});
+
+	it("asks for confirmation and awaits async guards", async () => {
+		const graph = initializeFlow([
+			{
+				currentPage: "a",
+				nextPage: "b",
+				canLeave: async () => ({ confirm: "Discard changes?" }),
+			},
+			{ currentPage: "b" },
+		]);
+		const confirm = vi.fn(async () => false);
+		await expect(
+			runNavigationGuards(graph, navigation, { confirm }),
+		).resolves.toBeNull();
+		expect(confirm).toHaveBeenCalledWith("Discard changes?");
+
+		confirm.mockResolvedValue(true);
+		await expect(
+			runNavigationGuards(graph, navigation, { confirm }),
+		).resolves.toBe("b");
+	});
+});
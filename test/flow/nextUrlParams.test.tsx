@@ -0,0 +1,164 @@
+import { Flow } from "@/flow/Flow";
+import { initializeFlow } from "@/flow/graphHelpers";
+import {
+	type NextRouteParams,
+	useNextUrlParamsAdapter,
+} from "@/flow/nextUrlParams";
+import { parsePath } from "@/flow/pathParamHelpers";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { useState } from "react";
+import { renderToString } from "react-dom/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+function Step() {
+	const { currentPage, goToNext } = useFlow();
+	return (
+		<button type="button" onClick={goToNext}>
+			{`page ${currentPage}`}
+		</button>
+	);
+}
+
+const graph = initializeFlow([
+	{ currentPage: "a", nextPage: "b" },
+	{ currentPage: "b" },
+]);
+
+const template = "/flow/[id]/[page]";
+
+/**
+ * Stands in for the App Router: navigations re-render the page with the
+ * params and search params of the new URL
+ */
+function FakeNextApp({
+	initialUrl,
+	wrapParams,
+	onNavigate,
+	componentLoaders,
+}: {
+	initialUrl: string;
+	wrapParams?: (
+		params: NextRouteParams,
+	) => NextRouteParams | Promise<NextRouteParams>;
+	onNavigate: (href: string, mode: "push" | "replace") => void;
+	componentLoaders: Map<string, () => Promise<{ default: typeof Step }>>;
+}) {
+	const [url, setUrl] = useState(initialUrl);
+	const [router] = useState(() => {
+		const entries = [initialUrl];
+		return {
+			push: (href: string) => {
+				onNavigate(href, "push");
+				entries.push(href);
+				setUrl(href);
+			},
+			replace: (href: string) => {
+				onNavigate(href, "replace");
+				entries[entries.length - 1] = href;
+				setUrl(href);
+			},
+			back: () => {
+				if (entries.length > 1) {
+					entries.pop();
+					setUrl(entries[entries.length - 1]);
+				}
+			},
+		};
+	});
+	const [pathname, search = ""] = url.split("?");
+	const [params] = useState(
+		() => new Map<string, ReturnType<NonNullable<typeof wrapParams>>>(),
+	);
+	if (!params.has(pathname)) {
+		const routeParams = parsePath(pathname, template);
+		params.set(pathname, wrapParams ? wrapParams(routeParams) : routeParams);
+	}
+
+	const adapter = useNextUrlParamsAdapter({
+		router,
+		params: params.get(pathname) ?? {},
+		searchParams: new URLSearchParams(search),
+		template: "/[id]/[page]",
+		basePath: "/flow",
+	});
+	return (
+		<>
+			<span data-testid="url">{url}</span>
+			<Flow
+				graph={graph}
+				config={{ componentLoaders, urlParamsAdapter: adapter }}
+			/>
+		</>
+	);
+}
+
+function createLoaders() {
+	return new Map(
+		["a", "b"].map((page) => [
+			page,
+			vi.fn(() => Promise.resolve({ default: Step })),
+		]),
+	);
+}
+
+describe("nextUrlParams", () => {
+	afterEach(() => {
+		cleanup();
+		window.history.replaceState({}, "", "/");
+	});
+
+	it("navigates through the router, keeping other params in the query", async () => {
+		const onNavigate = vi.fn();
+		render(
+			<FakeNextApp
+				initialUrl="/flow/abc/a?ref=home"
+				onNavigate={onNavigate}
+				componentLoaders={createLoaders()}
+			/>,
+		);
+
+		await screen.findByText("page a");
+		act(() => screen.getByText("page a").click());
+
+		expect(await screen.findByText("page b")).toBeInTheDocument();
+		expect(onNavigate).toHaveBeenCalledWith("/flow/abc/b?ref=home", "push");
+		expect(screen.getByTestId("url")).toHaveTextContent("/flow/abc/b?ref=home");
+		// The browser URL is left to the router
+		expect(window.location.pathname).toBe("/");
+	});
+
+	it("reads Promise params once they resolve", async () => {
+		window.history.replaceState({}, "", "/flow/abc/a");
+		const onNavigate = vi.fn();
+		render(
+			<FakeNextApp
+				initialUrl="/flow/abc/a"
+				wrapParams={(params) => Promise.resolve(params)}
+				onNavigate={onNavigate}
+				componentLoaders={createLoaders()}
+			/>,
+		);
+
+		await screen.findByText("page a");
+		act(() => screen.getByText("page a").click());
+
+		expect(await screen.findByText("page b")).toBeInTheDocument();
+		expect(onNavigate).toHaveBeenCalledWith("/flow/abc/b", "push");
+	});
+
+	it("renders the page in the URL on the first render", () => {
+		const componentLoaders = createLoaders();
+		const html = renderToString(
+			<FakeNextApp
+				initialUrl="/flow/abc/a"
+				onNavigate={vi.fn()}
+				componentLoaders={componentLoaders}
+			/>,
+		);
+
+		expect(html).toContain("/flow/abc/a");
+		expect(componentLoaders.get("a")).toHaveBeenCalled();
+		expect(componentLoaders.get("b")).not.toHaveBeenCalled();
+	});
+});
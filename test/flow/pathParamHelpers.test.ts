@@ -1,4 +1,8 @@
-import { createPathParamsAdapter } from "@/flow/pathParamHelpers";
+import {
+	buildPath,
+	createPathParamsAdapter,
+	matchPath,
+} from "@/flow/pathParamHelpers";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 describe("pathParamHelpers", () => {
@@ -9,6 +13,8 @@ describe("pathParamHelpers", () => {
 		Object.defineProperty(window, "location", {
 			value: {
 				pathname: "/abc123/page/pageA",
+				search: "",
+				hash: "",
 				origin: "http://localhost",
 				href: "http://localhost/abc123/page/pageA",
 			},
@@ -25,6 +31,7 @@ describe("pathParamHelpers", () => {
 		});
 		window.history.pushState = originalHistory.pushState;
 		window.history.replaceState = originalHistory.replaceState;
+		vi.restoreAllMocks();
 	});
 
 	it("getParam returns value from current pathname", () => {
@@ -73,9 +80,31 @@ describe("pathParamHelpers", () => {
 		);
 	});
 
+	it("subscribe is notified of changes and popstate until unsubscribed", () => {
+		const adapter = createPathParamsAdapter({
+			template: "/[id]/page/[page]",
+		});
+		const listener = vi.fn();
+		const unsubscribe = adapter.subscribe?.(listener);
+
+		adapter.setParam("page", "pageB");
+		window.dispatchEvent(new PopStateEvent("popstate"));
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		unsubscribe?.();
+		adapter.replaceParam("page", "pageC");
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+
 	it("works with basePath", () => {
 		Object.defineProperty(window, "location", {
-			value: { pathname: "/flow/xyz/pageB", origin: "", href: "" },
+			value: {
+				pathname: "/flow/xyz/pageB",
+				search: "",
+				hash: "",
+				origin: "",
+				href: "",
+			},
 			writable: true,
 		});
 		const adapter = createPathParamsAdapter({
@@ -85,4 +114,161 @@ describe("pathParamHelpers", () => {
 		expect(adapter.getParam("id")).toBe("xyz");
 		expect(adapter.getParam("page")).toBe("pageB");
 	});
+
+	it("uses the first matching template and reports it", () => {
+		const templates = ["/[id]/page/[page]", "/[id]/[type]/[options]/[page]"];
+		Object.defineProperty(window, "location", {
+			value: {
+				pathname: "/abc/pro/x/pageA",
+				search: "",
+				hash: "",
+				origin: "",
+				href: "",
+			},
+			writable: true,
+		});
+		const adapter = createPathParamsAdapter({ template: templates });
+
+		expect(adapter.getMatchedTemplate()).toBe(templates[1]);
+		expect(adapter.getAllParams()).toEqual({
+			id: "abc",
+			type: "pro",
+			options: "x",
+			page: "pageA",
+		});
+
+		// Writes keep the matched template
+		adapter.setParam("page", "pageB");
+		expect(window.history.pushState).toHaveBeenCalledWith(
+			{},
+			"",
+			"/abc/pro/x/pageB",
+		);
+	});
+
+	it("skips templates whose constraints don't match", () => {
+		const templates = ["/[id]/[step]", "/[id]/[page]"];
+		const constraints = { step: /\d+/ };
+
+		expect(matchPath("/en/abc/2", templates, constraints)).toEqual({
+			template: "/[id]/[step]",
+			params: { id: "abc", step: "2" },
+			prefix: "/en",
+		});
+		expect(matchPath("/abc/pageA", templates, constraints)?.template).toBe(
+			"/[id]/[page]",
+		);
+		expect(
+			matchPath("/abc/admin", "/[id]/[page]", {
+				page: (value) => value !== "admin",
+			}),
+		).toBeNull();
+	});
+
+	it("matches optional and catch-all segments", () => {
+		expect(matchPath("/abc/pageA", "/[id]/[page]/[tab?]")?.params).toEqual({
+			id: "abc",
+			page: "pageA",
+		});
+		expect(
+			matchPath("/abc/pageA/billing", "/[id]/[page]/[tab?]")?.params,
+		).toEqual({ id: "abc", page: "pageA", tab: "billing" });
+		expect(
+			matchPath("/docs/a/b%20c/pageA", "/docs/[...path]/[page]")?.params,
+		).toEqual({ path: "a/b c", page: "pageA" });
+		expect(matchPath("/docs", "/docs/[[...path]]")?.params).toEqual({});
+		expect(matchPath("/docs", "/docs/[...path]")).toBeNull();
+
+		expect(buildPath("/[id]/[page]/[tab?]", { id: "abc", page: "b" })).toBe(
+			"/abc/b",
+		);
+		expect(
+			buildPath("/docs/[...path]/[page]", { path: "a/b c", page: "b" }),
+		).toBe("/docs/a/b%20c/b");
+	});
+
+	it("keeps the query string and hash when updating the path", () => {
+		Object.defineProperty(window, "location", {
+			value: {
+				pathname: "/abc/page/pageA",
+				search: "?utm_source=mail",
+				hash: "#top",
+				origin: "",
+				href: "",
+			},
+			writable: true,
+		});
+		const adapter = createPathParamsAdapter({ template: "/[id]/page/[page]" });
+
+		adapter.setParam("page", "pageB");
+		expect(window.history.pushState).toHaveBeenCalledWith(
+			{},
+			"",
+			"/abc/page/pageB?utm_source=mail#top",
+		);
+		expect(adapter.getParam("utm_source")).toBeNull();
+	});
+
+	it("keeps other params in the query string in hybrid mode", () => {
+		Object.defineProperty(window, "location", {
+			value: {
+				pathname: "/abc/page/pageA",
+				search: "?utm_source=mail&page=ignored",
+				hash: "",
+				origin: "",
+				href: "",
+			},
+			writable: true,
+		});
+		const warn = vi.spyOn(console, "warn");
+		const adapter = createPathParamsAdapter({
+			template: "/[id]/page/[page]",
+			hybrid: true,
+		});
+
+		// Path params take precedence over query params
+		expect(adapter.getAllParams()).toEqual({
+			utm_source: "mail",
+			id: "abc",
+			page: "pageA",
+		});
+
+		adapter.setParam("returnTo", "/home");
+		expect(window.history.pushState).toHaveBeenCalledWith(
+			{},
+			"",
+			"/abc/page/pageA?utm_source=mail&page=ignored&returnTo=%2Fhome",
+		);
+
+		adapter.replaceParams({ page: "pageB", plan: "pro" });
+		expect(window.history.replaceState).toHaveBeenCalledWith(
+			{},
+			"",
+			"/abc/page/pageB?plan=pro",
+		);
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	it("clears an optional segment set to an empty value", () => {
+		Object.defineProperty(window, "location", {
+			value: {
+				pathname: "/abc/pageA/billing",
+				search: "",
+				hash: "",
+				origin: "",
+				href: "",
+			},
+			writable: true,
+		});
+		const adapter = createPathParamsAdapter({
+			template: "/[id]/[page]/[tab?]",
+		});
+
+		adapter.replaceParam("tab", "");
+		expect(window.history.replaceState).toHaveBeenCalledWith(
+			{},
+			"",
+			"/abc/pageA",
+		);
+	});
 });
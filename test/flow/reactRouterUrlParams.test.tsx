@@ -0,0 +1,107 @@
+import { Flow } from "@/flow/Flow";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { useReactRouterUrlParamsAdapter } from "@/flow/reactRouterUrlParams";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen } from "@testing-library/react";
+import {
+	MemoryRouter,
+	Route,
+	Routes,
+	useLocation,
+	useNavigate,
+} from "react-router";
+import { afterEach, describe, expect, it } from "vitest";
+
+function Step() {
+	const { currentPage, goToNext } = useFlow();
+	return (
+		<button type="button" onClick={goToNext}>
+			{`page ${currentPage}`}
+		</button>
+	);
+}
+
+const componentLoaders = new Map(
+	["a", "b"].map((page) => [page, () => Promise.resolve({ default: Step })]),
+);
+
+const graph = initializeFlow([
+	{ currentPage: "a", nextPage: "b" },
+	{ currentPage: "b" },
+]);
+
+function FlowRoute({ template }: { template?: string }) {
+	const navigate = useNavigate();
+	const location = useLocation();
+	const adapter = useReactRouterUrlParamsAdapter({
+		navigate,
+		location,
+		template,
+		basePath: template ? "/onboarding" : undefined,
+	});
+	return (
+		<>
+			<span data-testid="location">{location.pathname + location.search}</span>
+			<button type="button" onClick={() => navigate(-1)}>
+				router back
+			</button>
+			<Flow
+				graph={graph}
+				config={{ componentLoaders, urlParamsAdapter: adapter }}
+			/>
+		</>
+	);
+}
+
+describe("reactRouterUrlParams", () => {
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("navigates through the router in query mode", async () => {
+		render(
+			<MemoryRouter initialEntries={["/onboarding?ref=home"]}>
+				<Routes>
+					<Route path="/onboarding" element={<FlowRoute />} />
+				</Routes>
+			</MemoryRouter>,
+		);
+
+		await screen.findByText("page a");
+		const id = new URLSearchParams(
+			screen.getByTestId("location").textContent?.split("?")[1],
+		).get("id");
+		expect(id).toBeTruthy();
+
+		act(() => screen.getByText("page a").click());
+		expect(await screen.findByText("page b")).toBeInTheDocument();
+		expect(screen.getByTestId("location")).toHaveTextContent(
+			`/onboarding?ref=home&id=${id}&page=b`,
+		);
+
+		// Router back/forward reaches the flow through subscribe
+		act(() => screen.getByText("router back").click());
+		expect(await screen.findByText("page a")).toBeInTheDocument();
+	});
+
+	it("navigates through the router in path mode", async () => {
+		render(
+			<MemoryRouter initialEntries={["/onboarding/abc/page/a"]}>
+				<Routes>
+					<Route
+						path="/onboarding/:id/page/:page"
+						element={<FlowRoute template="/[id]/page/[page]" />}
+					/>
+				</Routes>
+			</MemoryRouter>,
+		);
+
+		await screen.findByText("page a");
+		act(() => screen.getByText("page a").click());
+
+		expect(await screen.findByText("page b")).toBeInTheDocument();
+		expect(screen.getByTestId("location")).toHaveTextContent(
+			"/onboarding/abc/page/b",
+		);
+	});
+});
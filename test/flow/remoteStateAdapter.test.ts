@@ -0,0 +1,287 @@
+import { AsyncStateManager } from "@/flow/asyncStateManagers";
+import { RemoteStateAdapter } from "@/flow/remoteStateAdapter";
+import type { FlowStateByPage } from "@/flow/types";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+type ServerRecord = { version: number; state: FlowStateByPage };
+
+/**
+ * Minimal versioned server: PUT must send the latest version or gets a 409
+ */
+function createFakeServer() {
+	const records = new Map<string, ServerRecord>();
+	let online = true;
+	let failWith: number | null = null;
+	let latency = 0;
+
+	const json = (status: number, body?: unknown) =>
+		new Response(body === undefined ? null : JSON.stringify(body), { status });
+
+	const fetchImpl = vi.fn(
+		async (input: RequestInfo | URL, init?: RequestInit) => {
+			if (!online) {
+				throw new TypeError("Failed to fetch");
+			}
+			if (failWith !== null) {
+				return json(failWith);
+			}
+			const uuid = String(input).split("/").pop() as string;
+			const record = records.get(uuid);
+
+			switch (init?.method) {
+				case "GET":
+					return record ? json(200, record) : json(404);
+				case "PUT": {
+					const body = JSON.parse(String(init.body)) as {
+						version: number | null;
+						state: FlowStateByPage;
+					};
+					if (record && body.version !== record.version) {
+						return json(409, record);
+					}
+					const version = (record?.version ?? 0) + 1;
+					records.set(uuid, { version, state: body.state });
+					// Stored right away, answered after the latency
+					await new Promise((resolve) => setTimeout(resolve, latency));
+					return json(200, { version });
+				}
+				case "DELETE":
+					records.delete(uuid);
+					return json(204);
+				default:
+					return json(405);
+			}
+		},
+	);
+
+	return {
+		records,
+		fetch: fetchImpl as unknown as typeof fetch,
+		fetchMock: fetchImpl,
+		setOnline: (value: boolean) => {
+			online = value;
+		},
+		setFailure: (status: number | null) => {
+			failWith = status;
+		},
+		setLatency: (ms: number) => {
+			latency = ms;
+		},
+	};
+}
+
+describe("RemoteStateAdapter", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("load returns null for unknown UUIDs and state for known ones", async () => {
+		const server = createFakeServer();
+		server.records.set("abc", { version: 3, state: { a: { name: "Alice" } } });
+		const adapter = new RemoteStateAdapter({
+			endpoint: "https://api.test/flows/",
+			fetch: server.fetch,
+		});
+
+		expect(await adapter.load("missing")).toBeNull();
+		expect(await adapter.load("abc")).toEqual({ a: { name: "Alice" } });
+		expect(server.fetchMock).toHaveBeenCalledWith(
+			"https://api.test/flows/abc",
+			expect.objectContaining({ method: "GET" }),
+		);
+	});
+
+	it("save sends the known version and tracks the new one", async () => {
+		const server = createFakeServer();
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+			headers: () => ({ Authorization: "Bearer t" }),
+		});
+
+		await adapter.save("abc", { a: { x: 1 } });
+		await adapter.save("abc", { a: { x: 2 } });
+
+		expect(server.records.get("abc")).toEqual({
+			version: 2,
+			state: { a: { x: 2 } },
+		});
+		const [, init] = server.fetchMock.mock.calls[1];
+		expect(init?.headers).toMatchObject({ Authorization: "Bearer t" });
+	});
+
+	it("surfaces version conflicts through onConflict", async () => {
+		const server = createFakeServer();
+		const onConflict = vi.fn(
+			({
+				local,
+				remote,
+			}: { local: FlowStateByPage; remote: FlowStateByPage }) => ({
+				...remote,
+				...local,
+			}),
+		);
+		const laptop = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+			onConflict,
+		});
+		const phone = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+		});
+
+		await laptop.save("abc", { a: { name: "Alice" } });
+		await phone.load("abc");
+		await phone.save("abc", { a: { name: "Alice" }, b: { plan: "pro" } });
+
+		const persisted = await laptop.saveMerged("abc", { a: { name: "Alicia" } });
+
+		expect(onConflict).toHaveBeenCalledWith({
+			uuid: "abc",
+			local: { a: { name: "Alicia" } },
+			remote: { a: { name: "Alice" }, b: { plan: "pro" } },
+			remoteVersion: 2,
+		});
+		expect(persisted).toEqual({ a: { name: "Alicia" }, b: { plan: "pro" } });
+		expect(server.records.get("abc")).toEqual({
+			version: 3,
+			state: { a: { name: "Alicia" }, b: { plan: "pro" } },
+		});
+	});
+
+	it("gives up when the server keeps answering 409", async () => {
+		const server = createFakeServer();
+		server.records.set("abc", { version: 1, state: {} });
+		const onError = vi.fn();
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+			// Another client saves again before every retry
+			onConflict: ({ local, remoteVersion }) => {
+				server.records.set("abc", { version: remoteVersion + 1, state: {} });
+				return local;
+			},
+			maxConflictRetries: 2,
+			onError,
+		});
+
+		await expect(adapter.save("abc", { a: { x: 1 } })).rejects.toThrow(
+			/still conflicting after 2 retries/,
+		);
+		expect(server.fetchMock).toHaveBeenCalledTimes(3);
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+
+	it("keeps the remote state and warns when no onConflict is given", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const server = createFakeServer();
+		server.records.set("abc", { version: 5, state: { a: { x: "remote" } } });
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+		});
+
+		const persisted = await adapter.saveMerged("abc", { a: { x: "local" } });
+
+		expect(persisted).toEqual({ a: { x: "remote" } });
+		expect(server.records.get("abc")?.state).toEqual({ a: { x: "remote" } });
+		expect(warn).toHaveBeenCalled();
+	});
+
+	it("sends a save only after the previous one for the UUID was answered", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const server = createFakeServer();
+		server.setLatency(20);
+		const manager = new AsyncStateManager(
+			new RemoteStateAdapter({ endpoint: "/api/flows", fetch: server.fetch }),
+		);
+
+		manager.setState("abc", "a", "name", "Al");
+		const first = manager.flush("abc");
+		manager.setState("abc", "a", "name", "Alice");
+		await Promise.all([first, manager.flush("abc")]);
+
+		expect(warn).not.toHaveBeenCalled();
+		expect(manager.getState("abc", "a")).toEqual({ name: "Alice" });
+		expect(server.records.get("abc")).toEqual({
+			version: 2,
+			state: { a: { name: "Alice" } },
+		});
+	});
+
+	it("queues saves while offline and sends them when back online", async () => {
+		const server = createFakeServer();
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+		});
+
+		server.setOnline(false);
+		await adapter.save("abc", { a: { x: 1 } });
+		await adapter.save("abc", { a: { x: 2 } });
+		expect(adapter.pendingCount).toBe(1);
+		expect(await adapter.load("abc")).toEqual({ a: { x: 2 } });
+
+		server.setOnline(true);
+		await adapter.flushQueue();
+
+		expect(adapter.pendingCount).toBe(0);
+		expect(server.records.get("abc")?.state).toEqual({ a: { x: 2 } });
+	});
+
+	it("keeps queued saves when replaying them fails", async () => {
+		const server = createFakeServer();
+		const onError = vi.fn();
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+			onError,
+		});
+
+		server.setOnline(false);
+		await adapter.save("abc", { a: { x: 1 } });
+		await adapter.save("def", { a: { y: 1 } });
+
+		// Back online, but the server answers 500: the online listener must not reject
+		server.setOnline(true);
+		server.setFailure(500);
+		window.dispatchEvent(new Event("online"));
+		await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(adapter.pendingCount).toBe(2);
+		expect(await adapter.load("abc")).toEqual({ a: { x: 1 } });
+
+		server.setFailure(null);
+		await adapter.flushQueue();
+
+		expect(adapter.pendingCount).toBe(0);
+		expect(server.records.get("abc")?.state).toEqual({ a: { x: 1 } });
+		expect(server.records.get("def")?.state).toEqual({ a: { y: 1 } });
+	});
+
+	it("reports non-network failures through onError", async () => {
+		const onError = vi.fn();
+		const adapter = new RemoteStateAdapter({
+			endpoint: (uuid) => `/custom/${uuid}`,
+			fetch: (async () => new Response(null, { status: 500 })) as typeof fetch,
+			onError,
+		});
+
+		await expect(adapter.load("abc")).rejects.toThrow(/500/);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), "abc");
+	});
+
+	it("remove deletes the remote record", async () => {
+		const server = createFakeServer();
+		server.records.set("abc", { version: 1, state: {} });
+		const adapter = new RemoteStateAdapter({
+			endpoint: "/api/flows",
+			fetch: server.fetch,
+		});
+
+		await adapter.remove("abc");
+		expect(server.records.has("abc")).toBe(false);
+	});
+});
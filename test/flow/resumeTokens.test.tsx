@@ -0,0 +1,224 @@
+import { Flow } from "@/flow/Flow";
+import { MemoryStateManager } from "@/flow/flowStateManagers";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import {
+	type ResumeTokenPayload,
+	decodeResumeToken,
+	encodeResumeToken,
+} from "@/flow/resumeTokens";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen, waitFor } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+async function hmac(data: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode("secret"),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		new TextEncoder().encode(data),
+	);
+	return btoa(String.fromCharCode(...new Uint8Array(signature)))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+const payload = {
+	page: "b",
+	state: { a: { name: "Ada", notes: "lorem ipsum ".repeat(20) } },
+	visitedPages: ["a", "b"],
+};
+
+function Step() {
+	const {
+		currentPage,
+		state,
+		updateState,
+		goToNext,
+		goToPrevious,
+		createResumeToken,
+	} = useFlow();
+	const [token, setToken] = useState("");
+	return (
+		<>
+			<span>{`page ${currentPage} ${state.a?.name ?? ""}`.trim()}</span>
+			<button type="button" onClick={() => updateState("name", "Ada")}>
+				name
+			</button>
+			<button type="button" onClick={goToNext}>
+				next
+			</button>
+			<button type="button" onClick={goToPrevious}>
+				back
+			</button>
+			<button type="button" onClick={() => createResumeToken().then(setToken)}>
+				share
+			</button>
+			<output>{token}</output>
+		</>
+	);
+}
+
+const componentLoaders = new Map(
+	["a", "b"].map((page) => [page, () => Promise.resolve({ default: Step })]),
+);
+
+const graph = initializeFlow([
+	{ currentPage: "a", nextPage: "b" },
+	{ currentPage: "b" },
+]);
+
+describe("resumeTokens", () => {
+	afterEach(() => {
+		cleanup();
+		vi.restoreAllMocks();
+	});
+
+	it("round-trips a compressed, URL-safe token", async () => {
+		const token = await encodeResumeToken(payload);
+
+		expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+		expect(token.length).toBeLessThan(JSON.stringify(payload).length);
+		expect(await decodeResumeToken(token)).toEqual(payload);
+		expect(await decodeResumeToken("not-a-token")).toBeNull();
+	});
+
+	it("rejects unsigned and tampered tokens when signing", async () => {
+		const token = await encodeResumeToken(payload, { sign: hmac });
+		const [data, signature] = token.split(".");
+
+		expect(await decodeResumeToken(token, { sign: hmac })).toEqual(payload);
+		expect(await decodeResumeToken(data, { sign: hmac })).toBeNull();
+		expect(
+			await decodeResumeToken(`${data}.${signature.slice(1)}x`, {
+				sign: hmac,
+			}),
+		).toBeNull();
+		const unsigned = await encodeResumeToken({ ...payload, page: "a" });
+		expect(
+			await decodeResumeToken(`${unsigned}.${signature}`, { sign: hmac }),
+		).toBeNull();
+	});
+
+	it("rejects payloads whose page states or visited pages are malformed", async () => {
+		const crafted = [
+			{ page: "b", state: { a: "abc" } },
+			{ page: "b", state: { a: [1, 2] } },
+			{ page: "b", state: { a: null } },
+			{ page: "b", state: [{ name: "Ada" }] },
+			{ page: "b", state: {}, visitedPages: ["a", 1] },
+		];
+		for (const value of crafted) {
+			const token = await encodeResumeToken(
+				value as unknown as ResumeTokenPayload,
+			);
+			expect(await decodeResumeToken(token)).toBeNull();
+		}
+	});
+
+	it("drops state and visited pages the graph doesn't have", async () => {
+		const token = await encodeResumeToken({
+			page: "b",
+			state: { ...payload.state, ghost: { name: "Grace" } },
+			visitedPages: ["ghost", "a", "b"],
+		});
+		const stateManager = new MemoryStateManager();
+		const adapter = createMemoryUrlParamsAdapter({ resume: token });
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager,
+					resume: {},
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("page b Ada")).toBeInTheDocument();
+		const uuid = adapter.getParam("id") ?? "";
+		expect(stateManager.getState(uuid, "ghost")).toEqual({});
+		expect(stateManager.getMetadata(uuid)?.visitedPages).toEqual(["a", "b"]);
+	});
+
+	it("resumes a flow from a token in another tab", async () => {
+		const resume = { sign: hmac };
+		const adapter = createMemoryUrlParamsAdapter();
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					resume,
+				}}
+			/>,
+		);
+		await screen.findByText("page a");
+		act(() => screen.getByText("name").click());
+		await screen.findByText("page a Ada");
+		act(() => screen.getByText("next").click());
+		await screen.findByText("page b Ada");
+		act(() => screen.getByText("share").click());
+		await waitFor(() =>
+			expect(screen.getByRole("status").textContent).not.toBe(""),
+		);
+		const token = screen.getByRole("status").textContent ?? "";
+		cleanup();
+
+		// A new tab: no stored state, only the token
+		const otherAdapter = createMemoryUrlParamsAdapter({ resume: token });
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: otherAdapter,
+					stateManager: new MemoryStateManager(),
+					resume,
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("page b Ada")).toBeInTheDocument();
+		expect(otherAdapter.getParam("resume")).toBeNull();
+		expect(otherAdapter.getParam("page")).toBe("b");
+
+		// The visited pages came along
+		act(() => screen.getByText("back").click());
+		expect(await screen.findByText("page a Ada")).toBeInTheDocument();
+	});
+
+	it("drops an invalid token and starts at the entry point", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const token = await encodeResumeToken(payload);
+		const adapter = createMemoryUrlParamsAdapter({ resume: token });
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					resume: { sign: hmac },
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("page a")).toBeInTheDocument();
+		expect(adapter.getParam("resume")).toBeNull();
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining("Ignoring invalid resume token"),
+		);
+	});
+});
@@ -0,0 +1,261 @@
+import { Flow } from "@/flow/Flow";
+import { MemoryStateManager } from "@/flow/flowStateManagers";
+import { initializeFlow } from "@/flow/graphHelpers";
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import {
+	type UrlStateBinding,
+	getClearedUrlStateParams,
+	getUrlStateParams,
+	readUrlState,
+} from "@/flow/urlStateBindings";
+import { useFlow } from "@/flow/useFlow";
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+
+const bindings: UrlStateBinding[] = [
+	{ page: "plan", key: "plan" },
+	{
+		page: "plan",
+		key: "seats",
+		param: "n",
+		serialize: (value: number) => (value > 0 ? String(value) : undefined),
+		deserialize: (value) => Number(value) || undefined,
+	},
+];
+
+function PlanPage() {
+	const { state, updateState, updateStateBatch, goToNext } = useFlow();
+	return (
+		<>
+			<span>{`plan ${state.plan?.plan ?? "none"}`}</span>
+			<button
+				type="button"
+				onClick={() =>
+					updateStateBatch({ plan: "pro", seats: 3, email: "a@b.co" })
+				}
+			>
+				choose pro
+			</button>
+			<button type="button" onClick={() => updateState("plan", null)}>
+				clear
+			</button>
+			<button type="button" onClick={goToNext}>
+				next
+			</button>
+		</>
+	);
+}
+
+function Page() {
+	const { currentPage } = useFlow();
+	return <span>{`page ${currentPage}`}</span>;
+}
+
+const componentLoaders = new Map([
+	["plan", () => Promise.resolve({ default: PlanPage })],
+	["basic", () => Promise.resolve({ default: Page })],
+	["pro", () => Promise.resolve({ default: Page })],
+	["__expired__", () => Promise.resolve({ default: Page })],
+]);
+
+const graph = initializeFlow([
+	{
+		currentPage: "plan",
+		nextPage: (state) => (state.plan?.plan === "pro" ? "pro" : "basic"),
+	},
+	{ currentPage: "basic" },
+	{ currentPage: "pro" },
+]);
+
+describe("urlStateBindings", () => {
+	afterEach(() => {
+		cleanup();
+	});
+
+	it("serializes bound keys only", () => {
+		expect(
+			getUrlStateParams(bindings, {
+				plan: { plan: "pro", seats: 0, email: "a@b.co" },
+			}),
+		).toEqual({ plan: "pro" });
+		expect(
+			getUrlStateParams(bindings, { plan: { plan: null, seats: 3 } }),
+		).toEqual({ n: "3" });
+	});
+
+	it("lists the params of cleared keys only", () => {
+		expect(
+			getClearedUrlStateParams(bindings, { plan: { plan: null, seats: 0 } }),
+		).toEqual(["plan"]);
+	});
+
+	it("reads bound keys that have no stored value", () => {
+		const params = { plan: "pro", n: "abc", email: "a@b.co" };
+
+		expect(readUrlState(bindings, params, {})).toEqual({
+			plan: { plan: "pro" },
+		});
+		expect(
+			readUrlState(
+				bindings,
+				{ ...params, n: "2" },
+				{ plan: { plan: "basic" } },
+			),
+		).toEqual({ plan: { seats: 2 } });
+	});
+
+	it("mirrors bound state into the URL", async () => {
+		const adapter = createMemoryUrlParamsAdapter();
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					urlStateBindings: bindings,
+				}}
+			/>,
+		);
+
+		await screen.findByText("plan none");
+		act(() => screen.getByText("choose pro").click());
+		await screen.findByText("plan pro");
+
+		expect(adapter.getParam("plan")).toBe("pro");
+		expect(adapter.getParam("n")).toBe("3");
+		expect(adapter.getParam("email")).toBeNull();
+
+		// Replaced, not pushed: back still leaves the page
+		act(() => screen.getByText("next").click());
+		expect(await screen.findByText("page pro")).toBeInTheDocument();
+		expect(adapter.getEntries().at(-2)).toMatchObject({ plan: "pro" });
+	});
+
+	it("removes the param when the bound value is cleared", async () => {
+		const adapter = createMemoryUrlParamsAdapter();
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					urlStateBindings: bindings,
+				}}
+			/>,
+		);
+
+		await screen.findByText("plan none");
+		act(() => screen.getByText("choose pro").click());
+		await screen.findByText("plan pro");
+		act(() => screen.getByText("clear").click());
+		await screen.findByText("plan none");
+
+		expect(adapter.getParam("plan")).toBeNull();
+		expect(adapter.getParam("n")).toBe("3");
+	});
+
+	it("starts the flow from a shared link with the bound values", async () => {
+		const adapter = createMemoryUrlParamsAdapter({
+			id: "shared",
+			page: "plan",
+			plan: "pro",
+		});
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					urlStateBindings: bindings,
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("plan pro")).toBeInTheDocument();
+		act(() => screen.getByText("next").click());
+		expect(await screen.findByText("page pro")).toBeInTheDocument();
+	});
+
+	it("shows a later page of a shared link instead of expiring", async () => {
+		const adapter = createMemoryUrlParamsAdapter({
+			id: "shared",
+			page: "pro",
+			plan: "pro",
+		});
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					urlStateBindings: bindings,
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("page pro")).toBeInTheDocument();
+	});
+
+	it("opens a shared link at the entry point when the guards reject its page", async () => {
+		const guardedGraph = initializeFlow([
+			{
+				currentPage: "plan",
+				nextPage: (state) => (state.plan?.plan === "pro" ? "pro" : "basic"),
+			},
+			{ currentPage: "basic" },
+			{
+				currentPage: "pro",
+				canEnter: (state) => state.plan?.plan === "pro",
+			},
+		]);
+		const adapter = createMemoryUrlParamsAdapter({
+			id: "shared",
+			page: "pro",
+			plan: "basic",
+		});
+		render(
+			<Flow
+				graph={guardedGraph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager: new MemoryStateManager(),
+					urlStateBindings: bindings,
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("plan basic")).toBeInTheDocument();
+		expect(adapter.getParam("page")).toBe("plan");
+	});
+
+	it("shows a shared link on expired state as expired", async () => {
+		const stateManager = new MemoryStateManager();
+		stateManager.setState("shared", "plan", "plan", "basic");
+		stateManager.setMetadata("shared", { createdAt: 0, updatedAt: 0 });
+		const adapter = createMemoryUrlParamsAdapter({
+			id: "shared",
+			page: "pro",
+			plan: "pro",
+		});
+		render(
+			<Flow
+				graph={graph}
+				config={{
+					componentLoaders,
+					urlParamsAdapter: adapter,
+					stateManager,
+					urlStateBindings: bindings,
+					expiration: { idleTimeout: 60_000 },
+				}}
+			/>,
+		);
+
+		expect(await screen.findByText("page __expired__")).toBeInTheDocument();
+		expect(stateManager.getState("shared", "plan")).toEqual({ plan: "basic" });
+	});
+});
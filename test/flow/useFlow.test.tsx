@@ -39,6 +39,7 @@ describe("useFlow", () => {
 		skipToPage: () => {},
 		updateState: (_key: string, _value: unknown) => {},
 		updateStateBatch: () => {},
+		updateStateAndGoToNext: () => {},
 		getPageState: (page: string) => (page === "step1" ? { name: "Bob" } : {}),
 		getCurrentNode: () => undefined,
 		getNode: () => undefined,
@@ -48,6 +49,20 @@ describe("useFlow", () => {
 		getUrlParam: () => null,
 		getAllUrlParams: () => ({}),
 		urlParams: {},
+		isReadOnly: false,
+		remotePage: null,
+		expiredReason: null,
+		expiresAt: null,
+		extendSession: () => {},
+		isNavigating: false,
+		navigationError: null,
+		visitedPages: [],
+		canGoBack: false,
+		navigationDirection: null,
+		errors: {},
+		isValid: true,
+		validateCurrentPage: () => true,
+		createResumeToken: () => Promise.resolve(""),
 	};
 
 	it("returns currentPage and state from context", () => {
@@ -0,0 +1,56 @@
+import { createMemoryUrlParamsAdapter } from "@/flow/memoryUrlParams";
+import { useUrlParams } from "@/flow/useURLParams";
+import { act, cleanup, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("useUrlParams", () => {
+	beforeEach(() => {
+		window.history.replaceState({}, "", "/");
+	});
+
+	afterEach(() => {
+		cleanup();
+		vi.restoreAllMocks();
+	});
+
+	it("updates every hook when a browser adapter changes the URL", () => {
+		const first = renderHook(() => useUrlParams());
+		const second = renderHook(() => useUrlParams());
+
+		act(() => first.result.current.setParam("page", "b"));
+
+		expect(second.result.current.params).toEqual({ page: "b" });
+	});
+
+	it("follows back/forward through popstate", () => {
+		const { result } = renderHook(() => useUrlParams());
+		act(() => result.current.setParam("page", "a"));
+		act(() => result.current.setParam("page", "b"));
+
+		act(() => {
+			window.history.replaceState({}, "", "/?page=a");
+			window.dispatchEvent(new PopStateEvent("popstate"));
+		});
+
+		expect(result.current.params).toEqual({ page: "a" });
+	});
+
+	it("prefers the adapter's subscribe over the popstate listener", () => {
+		const addEventListener = vi.spyOn(window, "addEventListener");
+		const adapter = createMemoryUrlParamsAdapter({ page: "a" });
+		const { result } = renderHook(() => useUrlParams(adapter));
+
+		act(() => adapter.setParam("page", "b"));
+		expect(result.current.params).toEqual({ page: "b" });
+
+		// Notifications without a change keep the same params object
+		const params = result.current.params;
+		act(() => adapter.replaceParam("page", "b"));
+		expect(result.current.params).toBe(params);
+
+		expect(addEventListener).not.toHaveBeenCalledWith(
+			"popstate",
+			expect.anything(),
+		);
+	});
+});